@@ -14,9 +14,14 @@ import * as hlLinesVS from './shaders/hlLines.vs'
 import * as hlLinesFS from './shaders/hlLines.fs'
 import * as hlArrowsVS from './shaders/hlArrows.vs'
 import * as hlArrowsFS from './shaders/hlArrows.fs'
+import * as labelsVS from './shaders/labels.vs'
+import * as labelsFS from './shaders/labels.fs'
+import * as selectionVS from './shaders/selection.vs'
+import * as selectionFS from './shaders/selection.fs'
+import * as hullsVS from './shaders/hulls.vs'
+import * as hullsFS from './shaders/hulls.fs'
 import * as worker from './worker.js'
 import * as arrowPNG from '../assets/arrow.png'
-import * as nodePNG from '../assets/node.png'
 import mitt from 'mitt'
 
 import './index.css'
@@ -26,18 +31,221 @@ require('three/examples/js/controls/MapControls.js')
 
 type RGB = [number, number, number]
 
+type NodeShape = 'circle' | 'square' | 'triangle' | 'diamond'
+
+interface GraphNode {
+  id: string
+  name?: string,
+  scale?: number,
+  image?: string,
+  color?: RGB,
+  opacity?: number,
+  borderColor?: RGB,
+  // 边框宽度，相对节点半径的比例（0 ~ 1）
+  borderWidth?: number,
+  shape?: NodeShape,
+  // 所属分组，同组节点相互吸引，可绘制包络并折叠为一个节点
+  group?: string,
+  x?: number,
+  y?: number,
+  fixed?: boolean,
+  [key: string]: unknown
+}
+
+interface GraphLink {
+  // 连线 id，未提供时自动生成，同一对节点之间可以有多条连线
+  id?: string,
+  source: string,
+  target: string,
+  color?: RGB,
+  // 线宽（px），默认为 lineWidth
+  width?: number,
+  opacity?: number,
+  dashed?: boolean,
+  // 连线标签，显示在连线中点
+  label?: string,
+  [key: string]: unknown
+}
+
+// 数字，或节点/连线数据上的字段名（按条目取值，缺失时使用默认值）
+type ForceValue = number | string
+
+interface ForceConfig {
+  charge?: false | {
+    strength?: ForceValue,
+    distanceMin?: number,
+    distanceMax?: number,
+    theta?: number
+  },
+  link?: false | {
+    distance?: ForceValue,
+    strength?: ForceValue,
+    iterations?: number
+  },
+  center?: false | {
+    x?: number,
+    y?: number
+  },
+  collide?: false | {
+    radius?: ForceValue,
+    strength?: number,
+    iterations?: number
+  },
+  x?: false | {
+    x?: number,
+    strength?: ForceValue
+  },
+  y?: false | {
+    y?: number,
+    strength?: ForceValue
+  },
+  radial?: false | {
+    radius?: ForceValue,
+    x?: number,
+    y?: number,
+    strength?: ForceValue
+  },
+  // 将同组节点拉向组的重心
+  cluster?: false | {
+    strength?: ForceValue
+  }
+}
+
+// 折叠分组后合并出的连线，links 为合并前的连线
+interface GroupLink extends GraphLink {
+  count: number,
+  links: Array<GraphLink>
+}
+
+// 发给 worker 的力参数，数据字段已按节点/连线下标展开为数组，关闭的力为 null
+type ForceMessage = {
+  [K in keyof ForceConfig]: {
+    [key: string]: number | Float32Array | Int32Array
+  }
+}
+
 interface GraphData {
-  nodes: Array<{
-    id: string
-    name?: string,
-    scale?: number,
-    image?: string
-  }>,
-  links: Array<{
-    source: string,
-    target: string,
-    color?: RGB
-  }>
+  nodes: Array<GraphNode>,
+  links: Array<GraphLink>
+}
+
+type StyleValue = number | string | boolean | RGB
+
+// 声明式映射：按 field 取值（数据字段优先，其次为上下文中的 degree 等），缺失时使用 default
+interface StyleMapping {
+  field: string,
+  // linear: 数值从 domain 线性映射到 range（数字或颜色），category10 / ordinal: 按取值依次分配颜色或 range 中的值
+  scale?: 'linear' | 'category10' | 'ordinal',
+  domain?: [number, number],
+  range?: Array<StyleValue>,
+  default?: StyleValue
+}
+
+interface NodeStyle {
+  // 节点大小倍数，同 GraphNode.scale
+  size?: number,
+  color?: RGB,
+  opacity?: number,
+  borderColor?: RGB,
+  borderWidth?: number,
+  shape?: NodeShape
+}
+
+interface LinkStyle {
+  color?: RGB,
+  width?: number,
+  opacity?: number,
+  dashed?: boolean
+}
+
+interface NodeStyleContext {
+  index: number,
+  degree: number,
+  inDegree: number,
+  outDegree: number,
+  // 以下为 analyze() 完成后的分析结果
+  pagerank?: number,
+  betweenness?: number,
+  component?: number,
+  community?: number
+}
+
+interface LinkStyleContext {
+  index: number,
+  source: GraphNode,
+  target: GraphNode
+}
+
+type NodeStyleConfig = ((node: GraphNode, ctx: NodeStyleContext) => NodeStyle) | {
+  [K in keyof NodeStyle]?: NodeStyle[K] | StyleMapping
+}
+
+type LinkStyleConfig = ((link: GraphLink, ctx: LinkStyleContext) => LinkStyle) | {
+  [K in keyof LinkStyle]?: LinkStyle[K] | StyleMapping
+}
+
+interface AnalyticsOptions {
+  // PageRank 阻尼系数
+  damping?: number,
+  // 介数中心性采样的源节点数，不小于节点数时为精确值
+  samples?: number,
+  // Louvain 分辨率，越大社区越小
+  resolution?: number
+}
+
+interface GraphAnalytics {
+  degree: {
+    [key: string]: number
+  },
+  inDegree: {
+    [key: string]: number
+  },
+  outDegree: {
+    [key: string]: number
+  },
+  pagerank: {
+    [key: string]: number
+  },
+  betweenness: {
+    [key: string]: number
+  },
+  // 连通分量与社区编号，按大小从 0 开始编号
+  component: {
+    [key: string]: number
+  },
+  community: {
+    [key: string]: number
+  },
+  componentCount: number,
+  communityCount: number,
+  modularity: number
+}
+
+// force: d3 力导向布局，multilevel: 先布局逐层合并后的粗图再逐层展开的力导向布局，其余布局在 worker 中直接计算位置
+type LayoutType = 'force' | 'multilevel' | 'layered' | 'radialTree' | 'circular' | 'grid' | 'concentric'
+
+interface LayoutConfig {
+  type: LayoutType,
+  // 从当前位置过渡到新布局的动画时长（ms）
+  duration?: number,
+  // 同一层（圈）相邻节点的间距
+  nodeSpacing?: number,
+  // 层与层（圈与圈）的间距
+  levelSpacing?: number,
+  // layered：层的排列方向，TB 为从上到下
+  direction?: 'TB' | 'BT' | 'LR' | 'RL',
+  // radialTree：根节点 id，未指定的连通分量以度最大的节点为根
+  roots?: Array<string>
+}
+
+interface SimulationConfig {
+  maxTicks?: number,
+  timeBudget?: number,
+  alphaMin?: number,
+  alphaDecay?: number,
+  alphaTarget?: number,
+  velocityDecay?: number,
+  skipWhenPositioned?: boolean
 }
 
 interface GraphBaseConfig {
@@ -46,13 +254,65 @@ interface GraphBaseConfig {
   nodeSize?: number,
   arrowSize?: number,
   lineWidth?: number,
+  // 虚线的实线与间隔长度（px）
+  lineDash?: [number, number],
   showArrow?: boolean,
   backgroundColor?: RGB,
   highLightColor?: RGB,
+  // 在 HUD 中显示出度最高的节点
   showStatTable?: boolean,
+  // 显示节点数、连线数、布局进度与帧率的浮层
+  showHud?: boolean,
+  hudHubCount?: number,
   roundedImage?: boolean,
   zoomNear?: number,
   zoomFar?: number,
+  linkPicking?: boolean,
+  linkPickTolerance?: number,
+  enableDrag?: boolean,
+  pinOnDragEnd?: boolean,
+  // shift 拖拽框选，alt 拖拽套索选择
+  enableSelection?: boolean,
+  selectionColor?: RGB,
+  forces?: ForceConfig,
+  simulation?: SimulationConfig,
+  layout?: LayoutType | LayoutConfig,
+  // 布局使用的 worker 数，大于 1 时斥力分给多个 worker 并行计算，需要 SharedArrayBuffer
+  workers?: number,
+  // 通过 SharedArrayBuffer 与 worker 共享节点位置，不可用时每次 tick 转移一份新的 buffer
+  sharedMemory?: boolean,
+  nodeStyle?: NodeStyleConfig,
+  linkStyle?: LinkStyleConfig,
+  // 数据加载与变更后自动执行 analyze()
+  analytics?: boolean | AnalyticsOptions,
+  showLabels?: boolean,
+  // 标签文本，默认为 name 或 id
+  label?: (node: GraphNode) => string,
+  labelFont?: string,
+  // 字号（px）
+  labelSize?: number,
+  labelColor?: RGB,
+  // 相机高度超过该值时不显示标签
+  labelZoom?: number,
+  // 高亮节点时扩展的邻居层数与方向
+  highlightDepth?: number,
+  highlightDirection?: NeighborDirection,
+  // 专注模式：高亮时淡化邻域以外的节点与连线，而不是叠加高亮层
+  focusMode?: boolean,
+  focusOpacity?: number,
+  // 相机高度超过该值时不显示连线标签（高亮节点的连线除外）
+  linkLabelZoom?: number,
+  // 在各分组节点下方绘制包络
+  showHulls?: boolean,
+  // convex: 凸包，concave: 凹包，更贴合组内节点的分布
+  hullType?: 'convex' | 'concave',
+  // 包络与节点中心的距离（图坐标）
+  hullPadding?: number,
+  hullOpacity?: number,
+  // 各分组的包络颜色，未指定的分组依次使用 category10
+  groupColors?: {
+    [key: string]: RGB
+  },
   debug?: boolean
 }
 
@@ -64,6 +324,7 @@ interface D3ForceData {
 }
 
 interface D3Link {
+  id?: string,
   source: string,
   target: string
 }
@@ -72,16 +333,30 @@ interface ProcessedData extends D3ForceData {
   nodeInfoMap: {
     [key: string]: {
       index: number,
+      data: GraphNode,
+      fixed: boolean,
       scale?: number,
       image?: string,
       name?: string,
+      // 以下为数据与 nodeStyle 合并后的样式
+      color?: RGB,
+      opacity?: number,
+      borderColor?: RGB,
+      borderWidth?: number,
+      shape?: number,
       imageTexture?: THREE.Texture,
       imagePoint?: ShaderMesh
     }
   },
   linkInfoMap: {
     [key: string]: {
-      color?: RGB
+      data: GraphLink,
+      color?: RGB,
+      width?: number,
+      opacity?: number,
+      dashed?: boolean,
+      // 弯曲程度，见 updateCurvatures
+      curvature?: number
     }
   },
   linkBuffer: Int32Array,
@@ -94,7 +369,7 @@ interface ProcessedData extends D3ForceData {
 interface Mesh {
   geometry: THREE.BufferGeometry,
   material: THREE.Material,
-  mesh: THREE.Mesh | THREE.Points | THREE.LineSegments
+  mesh: THREE.Mesh | THREE.Points | THREE.Line
 }
 
 interface ShaderMesh extends Mesh {
@@ -102,7 +377,16 @@ interface ShaderMesh extends Mesh {
   positions: Float32Array,
   scale?: Float32Array,
   rotates?: Float32Array,
-  colors?: Float32Array
+  colors?: Float32Array,
+  opacities?: Float32Array,
+  widths?: Float32Array,
+  dashes?: Float32Array,
+  curvatures?: Float32Array,
+  borderColors?: Float32Array,
+  borderWidths?: Float32Array,
+  shapes?: Float32Array,
+  focused?: Float32Array,
+  visibles?: Float32Array
 }
 
 interface GraphPerfInfo {
@@ -114,12 +398,176 @@ interface GraphPerfInfo {
   prevTickTime: number,
   targetTick: number,
   intervalTime: number,
-  layouting: boolean
+  layouting: boolean,
+  // running | paused | stopped | ended
+  layoutState: string,
+  alpha: number
 }
 
 interface MouseStatus {
   mouseOnChart: boolean,
-  mousePosition: THREE.Vector2
+  mousePosition: THREE.Vector2,
+  mouseDownPosition: THREE.Vector2,
+  event?: MouseEvent
+}
+
+interface GraphPosition {
+  x: number,
+  y: number
+}
+
+interface NodePosition extends GraphPosition {
+  fixed: boolean
+}
+
+interface GraphLayout {
+  [key: string]: NodePosition
+}
+
+interface CameraState {
+  x: number,
+  y: number,
+  z: number
+}
+
+interface CameraTransition {
+  // 动画时长（ms），0 为立即生效
+  duration?: number
+}
+
+interface FocusOptions extends CameraTransition {
+  zoom?: number
+}
+
+interface FitOptions extends CameraTransition {
+  // 四周留白，相对节点范围的比例
+  padding?: number
+}
+
+interface CameraAnimation {
+  from: CameraState,
+  to: CameraState,
+  startTime: number,
+  duration: number
+}
+
+// out: 沿连线方向，in: 逆连线方向
+type NeighborDirection = 'in' | 'out' | 'both'
+
+interface NeighborhoodOptions {
+  depth?: number,
+  direction?: NeighborDirection
+}
+
+interface Neighborhood {
+  nodes: Array<string>,
+  links: Array<D3Link>
+}
+
+interface Adjacency {
+  in: {
+    [key: string]: Array<D3Link>
+  },
+  out: {
+    [key: string]: Array<D3Link>
+  },
+  // 连线 id 到 processedData.links 下标
+  linkIndex: {
+    [key: string]: number
+  }
+}
+
+interface PathOptions {
+  // 只沿连线方向查找，默认为 false
+  directed?: boolean,
+  // 连线权重，数据字段名或函数，未提供时按跳数计算
+  weight?: string | ((link: GraphLink) => number)
+}
+
+interface AllPathsOptions extends PathOptions {
+  // 最多返回的路径数
+  maxPaths?: number
+}
+
+interface GraphPath {
+  // 从起点到终点依次经过的节点与连线
+  nodes: Array<string>,
+  links: Array<D3Link>,
+  // 跳数或权重之和
+  distance: number
+}
+
+interface PathSearchResult {
+  distance: {
+    [key: string]: number
+  },
+  // 最短路径上到达各节点的连线
+  prev: {
+    [key: string]: Array<D3Link>
+  }
+}
+
+interface GraphFilter {
+  // 返回 false 的节点与连线被隐藏，隐藏节点的连线一并隐藏
+  node?: (node: GraphNode) => boolean,
+  link?: (link: GraphLink) => boolean,
+  // 隐藏的节点与连线不参与布局
+  excludeFromLayout?: boolean
+}
+
+interface GraphFilterEvent {
+  filter: GraphFilter,
+  visibleNodeCount: number,
+  visibleLinkCount: number
+}
+
+interface HighlightOptions {
+  // induced: 高亮节点之间的连线，incident: 与高亮节点相连的所有连线（及其另一端节点），none: 不高亮连线
+  links?: 'induced' | 'incident' | 'none',
+  // 锁定后鼠标悬停不会替换或清除高亮，默认锁定
+  lock?: boolean,
+  // 调整相机使高亮节点全部可见
+  fit?: boolean
+}
+
+interface GraphPointerEvent extends GraphPosition {
+  event: MouseEvent
+}
+
+interface GraphNodeEvent extends GraphPointerEvent {
+  node: GraphNode
+}
+
+interface GraphLinkEvent extends GraphPointerEvent {
+  link: GraphLink
+}
+
+interface GraphDragEvent extends GraphNodeEvent {
+  nodes: Array<GraphNode>
+}
+
+interface GraphSelectionEvent {
+  nodes: Array<GraphNode>
+}
+
+interface SelectStatus {
+  // rect | lasso
+  mode: string,
+  // 框选时为起点与终点，套索时为经过的点（图坐标）
+  points: Array<GraphPosition>,
+  // 加入当前选择而不是替换
+  additive: boolean
+}
+
+interface DragStatus {
+  id: string,
+  ids: Array<string>,
+  // 各节点相对指针的偏移
+  offsets: Float32Array,
+  position: GraphPosition,
+  dragging: boolean,
+  // 最近一次的鼠标事件，数据变更中断拖拽时随 dragend 发出
+  event: MouseEvent
 }
 
 interface ViewportRect {
@@ -129,6 +577,99 @@ interface ViewportRect {
   bottom: number
 }
 
+interface Glyph {
+  // atlas 中的位置与宽度（atlas 像素），四周留有 1px 间隔
+  x: number,
+  y: number,
+  width: number,
+  advance: number
+}
+
+interface GlyphAtlas {
+  canvas: HTMLCanvasElement,
+  context: CanvasRenderingContext2D,
+  texture: THREE.Texture,
+  glyphs: {
+    [key: string]: Glyph
+  },
+  // 下一个字形的位置
+  x: number,
+  y: number,
+  lineHeight: number,
+  // atlas 像素与屏幕像素之比
+  ratio: number,
+  // atlas 写满后清空的次数
+  resets: number
+}
+
+interface LabelRect {
+  left: number,
+  right: number,
+  top: number,
+  bottom: number
+}
+
+interface PlacedLabel {
+  text: string,
+  // 锚点（图坐标）
+  x: number,
+  y: number,
+  // 宽度与文字下沿相对锚点的偏移（px）
+  width: number,
+  offsetY: number,
+  // 屏幕上的旋转角度
+  angle: number
+}
+
+interface CollapsedGroup {
+  // 替代成员显示的聚合节点
+  node: GraphNode,
+  nodes: Array<GraphNode>,
+  // 折叠时各成员相对聚合节点的位置，展开时按此散开
+  offsets: {
+    [key: string]: GraphPosition
+  }
+}
+
+interface HudStatus {
+  // 上次刷新 HUD 以来绘制的帧数
+  frames: number,
+  updateTime: number
+}
+
+// worker 发回的消息，tick / end 的位置在 nodes 中或写入共享缓冲区
+interface WorkerPositionMessage {
+  type: 'tick' | 'end',
+  progress?: number,
+  currentTick?: number,
+  alpha?: number,
+  nodes?: ArrayBuffer,
+  sharedVersion?: number
+}
+
+interface WorkerStateMessage {
+  type: 'state',
+  state: string,
+  alpha: number
+}
+
+// 分析结果按节点下标排列
+interface WorkerAnalyticsMessage {
+  type: 'analytics',
+  requestId: number,
+  inDegree: ArrayBuffer,
+  outDegree: ArrayBuffer,
+  pagerank: ArrayBuffer,
+  betweenness: ArrayBuffer,
+  component: ArrayBuffer,
+  community: ArrayBuffer,
+  componentCount: number,
+  communityCount: number,
+  modularity: number
+}
+
+type WorkerMessage = WorkerPositionMessage | WorkerStateMessage | WorkerAnalyticsMessage
+
 interface VisibleNode {
   id: string,
   x: number,
@@ -141,16 +682,89 @@ const GRAPH_BASE_CONFIG: GraphBaseConfig = {
   nodeSize: 3000,
   arrowSize: 1250,
   lineWidth: 1,
+  lineDash: [6, 4],
   showArrow: true,
   backgroundColor: [0, 0, 16],
   highLightColor: [255, 0, 0],
   showStatTable: true,
+  showHud: false,
+  hudHubCount: 10,
   roundedImage: true,
   zoomNear: 75,
   zoomFar: 16000,
+  linkPicking: false,
+  linkPickTolerance: 4,
+  enableDrag: false,
+  pinOnDragEnd: false,
+  enableSelection: false,
+  selectionColor: [255, 200, 0],
+  showLabels: false,
+  labelFont: 'Arial',
+  labelSize: 12,
+  labelColor: [255, 255, 255],
+  labelZoom: 3000,
+  linkLabelZoom: 1000,
+  highlightDepth: 1,
+  highlightDirection: 'both',
+  focusMode: false,
+  focusOpacity: 0.1,
+  layout: 'force',
+  workers: 1,
+  sharedMemory: true,
+  showHulls: false,
+  hullType: 'convex',
+  hullPadding: 10,
+  hullOpacity: 0.15,
   debug: false
 }
 
+// charge / link / center / collide / cluster 默认开启，x / y / radial 需显式配置才开启
+const GRAPH_FORCE_CONFIG: ForceConfig = {
+  charge: {
+    distanceMin: 1,
+    distanceMax: Infinity,
+    theta: 0.9
+  },
+  link: {
+    strength: 1,
+    iterations: 1
+  },
+  center: {
+    x: 0,
+    y: 0
+  },
+  collide: {
+    strength: 1,
+    iterations: 1
+  },
+  x: {
+    x: 0,
+    strength: 0.1
+  },
+  y: {
+    y: 0,
+    strength: 0.1
+  },
+  radial: {
+    radius: 100,
+    x: 0,
+    y: 0,
+    strength: 0.1
+  },
+  cluster: {
+    strength: 0.1
+  }
+}
+
+const GRAPH_LAYOUT_CONFIG: LayoutConfig = {
+  type: 'force',
+  duration: 1000,
+  nodeSpacing: 20,
+  levelSpacing: 60,
+  direction: 'TB',
+  roots: []
+}
+
 const GRAPH_DEFAULT_PERF_INFO: GraphPerfInfo = {
   nodeCounts: 0,
   linkCounts: 0,
@@ -160,35 +774,159 @@ const GRAPH_DEFAULT_PERF_INFO: GraphPerfInfo = {
   prevTickTime: 0,
   targetTick: 0,
   intervalTime: 0,
-  layouting: false
+  layouting: false,
+  layoutState: '',
+  alpha: 1
 }
 
 const textureLoader: THREE.TextureLoader = new THREE.TextureLoader()
 const ARROW_TEXTURE = textureLoader.load(arrowPNG)
-const NODE_TEXTURE = textureLoader.load(nodePNG)
+// 节点默认颜色与形状，形状按下标传给着色器
+const NODE_COLOR: RGB = [204, 204, 204]
+const NODE_SHAPES: Array<NodeShape> = ['circle', 'square', 'triangle', 'diamond']
+const CATEGORY10: Array<RGB> = [[31, 119, 180], [255, 127, 14], [44, 160, 44], [214, 39, 40], [148, 103, 189], [140, 86, 75], [227, 119, 194], [127, 127, 127], [188, 189, 34], [23, 190, 207]]
 const BASE_HEIGHT = 500
 
+// 返回第一个不为 undefined / null 的值
+function pick<T>(...values: Array<T>): T {
+  return values.find(e => e !== undefined && e !== null)
+}
+const REHEAT_ALPHA = 0.3
+const CAMERA_DURATION = 600
+const LABEL_ATLAS_SIZE = 2048
+// 单次最多放置的标签数
+const LABEL_MAX_COUNT = 1000
+// 标签碰撞检测的网格大小（px）
+const LABEL_GRID_SIZE = 64
+// 曲线连线的分段数
+const CURVE_SEGMENTS = 16
+// 同一对节点间相邻连线的弯曲程度间隔
+const CURVE_STEP = 0.4
+// 按下与抬起的距离小于该值（px）时视为点击，否则视为拖拽平移
+const CLICK_TOLERANCE = 4
+// 权重之和的差小于该值时视为同样短的路径
+const PATH_EPSILON = 1e-9
+const MAX_PATHS = 100
+// HUD 刷新间隔（ms）
+const HUD_INTERVAL = 500
+// 聚合节点与聚合连线的 id 前缀
+const GROUP_PREFIX = 'group:'
+// 展开分组时成员从聚合节点附近按折叠前的相对位置散开，初始距离为原来的比例
+const GROUP_EXPAND_RATIO = 0.1
+// 包络在每个节点周围取点的数量，使包络与节点保持 hullPadding 的距离
+const HULL_SEGMENTS = 8
+// 凹包：边长与内部点到端点距离之比超过该值时向内收缩
+const HULL_CONCAVITY = 2
+// 共享位置缓冲区开头的两个 Int32：worker 最近写完的序号 * 2 + 槽位，主线程正在读取的槽位（-1 为未读取），之后是两个槽位的位置
+const SHARED_PUBLISHED = 0
+const SHARED_READING = 1
+const SHARED_HEADER = 2
+
 export class D3ForceGraph {
 
   $container: HTMLElement
+  $hud: HTMLElement
   containerRect: ClientRect
   data: GraphData
   config: GraphBaseConfig
   perfInfo: GraphPerfInfo
   processedData: ProcessedData
   worker: Worker
+  // 分担斥力计算的辅助 worker
+  helpers: Array<Worker> = []
+  // 与 worker 共享的节点位置（两个槽位）与读写状态，未使用共享内存时为 null，版本号随节点数变化递增
+  sharedPositions: Float32Array
+  sharedControl: Int32Array
+  sharedVersion: number = 0
+  // 最近读取的序号，与读取到的复用数组
+  sharedSequence: number = 0
+  sharedReadPositions: Float32Array
   targetPositionStatus: Float32Array
   currentPositionStatus: Float32Array
   cachePositionStatus: Float32Array
   mouseStatus: MouseStatus = {
     mouseOnChart: false,
-    mousePosition: new THREE.Vector2(-9999, -9999)
+    mousePosition: new THREE.Vector2(-9999, -9999),
+    mouseDownPosition: new THREE.Vector2(-9999, -9999)
   }
   rafId: number
   highlighted: string
+  hovered: string
+  highlightedLink: string
+  hoveredLink: D3Link
+  linkPickCache: {
+    key: string,
+    link: D3Link
+  }
+  dragStatus: DragStatus
+  selectStatus: SelectStatus
+  selected: {
+    [key: string]: boolean
+  } = {}
+  cameraAnimation: CameraAnimation
   throttleTimer: number
   events: mitt.Emitter
-  lockHighlightToken: false
+  lockHighlightToken: boolean
+  highlightedNodes: {
+    ids: Array<string>,
+    options: HighlightOptions
+  }
+  highlightedPaths: {
+    paths: Array<GraphPath>,
+    options: HighlightOptions
+  }
+  pendingIndexMap: {
+    [key: string]: number
+  }
+  dataSyncPending: boolean
+  // 邻接表，数据变化后重新生成
+  adjacency: Adjacency
+  analytics: GraphAnalytics
+  filter: GraphFilter = {}
+  // 数据每次变化时递增，丢弃变化前发出的分析结果
+  analyticsVersion: number = 0
+  analyticsRequestId: number = 0
+  analyticsRequests: {
+    [key: number]: {
+      ids: Array<string>,
+      version: number,
+      resolve: (analytics: GraphAnalytics) => void
+    }
+  } = {}
+  // 节点、连线与箭头材质共用，专注模式下淡化 focused 为 0 的元素
+  focusUniforms: {[key: string]: THREE.IUniform} = {
+    'u_focus': {
+      value: 0
+    },
+    'u_dimOpacity': {
+      value: 0.1
+    }
+  }
+  labelAtlas: GlyphAtlas
+  // 按重要程度排序的节点 id
+  labelOrder: Array<string>
+  // 带标签的连线
+  linkLabels: Array<D3Link>
+  labelCacheKey: string
+  hudStatus: HudStatus = {
+    frames: 0,
+    updateTime: 0
+  }
+  collapsedGroups: {
+    [key: string]: CollapsedGroup
+  } = {}
+  // 因分组折叠而未显示的原始连线
+  collapsedLinks: Array<GraphLink> = []
+  // 当前显示的聚合连线
+  groupLinks: Array<GraphLink> = []
+  // 折叠与展开时新增节点的初始位置
+  groupPositions: {
+    [key: string]: GraphPosition
+  } = {}
+  // 分组首次出现的顺序，用于分配包络颜色
+  groupOrder: {
+    [key: string]: number
+  } = {}
 
   scene: THREE.Scene
   renderer: THREE.WebGLRenderer
@@ -241,12 +979,35 @@ export class D3ForceGraph {
     material: null,
     mesh: null
   }
+  labels: ShaderMesh = {
+    geometry: null,
+    positions: null,
+    material: null,
+    mesh: null
+  }
+  selection: ShaderMesh = {
+    geometry: null,
+    positions: null,
+    scale: null,
+    material: null,
+    mesh: null
+  }
+  selectionArea: Mesh = {
+    geometry: null,
+    material: null,
+    mesh: null
+  }
+  hulls: Mesh = {
+    geometry: null,
+    material: null,
+    mesh: null
+  }
 
   constructor(dom: HTMLElement, data: GraphData, graphBaseConfig: GraphBaseConfig = GRAPH_BASE_CONFIG) {
     this.$container = dom
     this.data = data
     this.config = Object.assign({}, GRAPH_BASE_CONFIG, graphBaseConfig)
-    this.perfInfo = GRAPH_DEFAULT_PERF_INFO
+    this.perfInfo = Object.assign({}, GRAPH_DEFAULT_PERF_INFO)
     this.events = new mitt()
 
     this.init()
@@ -260,6 +1021,7 @@ export class D3ForceGraph {
 
       this.prepareScene()
       this.prepareBasicMesh()
+      this.createHud()
       this.installControls()
       this.bindEvent()
 
@@ -287,106 +1049,913 @@ export class D3ForceGraph {
       linkBuffer: null
     }
 
-    let nodeCount = 0
-
     this.data.nodes.forEach(e => {
-      if(!result.nodeInfoMap[e.id]) {
-        result.nodes.push({
-          id: e.id
-        })
-        result.nodeInfoMap[e.id] = {
-          index: nodeCount,
-          scale: e.scale,
-          image: e.image,
-          name: e.name
-        }
-        nodeCount++
-      }
+      this.appendNode(result, e)
     })
 
-    let linkCountMap: {
+    this.data.links.forEach(e => {
+      this.appendLink(result, e)
+    })
+
+    result.linkBuffer = this.getLinkBuffer(result)
+    result.statTable = this.getStatTable(result)
+    this.applyStyles(result)
+    this.updateCurvatures(result)
+
+    return result
+  }
+
+  // 合并数据字段与 nodeStyle / linkStyle，数据上显式提供的字段优先
+  applyStyles(result: ProcessedData): void {
+    let inDegree: {
+      [key: string]: number
+    } = {}
+    let outDegree: {
       [key: string]: number
     } = {}
-    let linkBuffer: Array<number> = []
+    result.links.forEach(e => {
+      outDegree[e.source] = (outDegree[e.source] || 0) + 1
+      inDegree[e.target] = (inDegree[e.target] || 0) + 1
+    })
 
-    this.data.links.forEach(e => {
-      let linkInfoKey = `${e.source}-${e.target}`
-      if(!result.linkInfoMap[linkInfoKey]) {
-        result.links.push({
-          source: e.source,
-          target: e.target
-        })
-        linkBuffer.push(result.nodeInfoMap[e.source].index, result.nodeInfoMap[e.target].index)
-        result.linkInfoMap[linkInfoKey] = {
-          color: e.color && e.color.map(e => e / 255) as RGB
-        }
-        linkCountMap[e.source] = (linkCountMap[e.source] || 0) + 1
+    let nodes = result.nodes.map(e => result.nodeInfoMap[e.id].data)
+    let analytics = this.analytics
+    let nodeStyles: Array<NodeStyle> = this.resolveStyles(nodes, nodes.map((e, i) => {
+      let context: NodeStyleContext = {
+        index: i,
+        degree: (inDegree[e.id] || 0) + (outDegree[e.id] || 0),
+        inDegree: inDegree[e.id] || 0,
+        outDegree: outDegree[e.id] || 0
       }
-    })
+      if(analytics) {
+        context.pagerank = analytics.pagerank[e.id]
+        context.betweenness = analytics.betweenness[e.id]
+        context.component = analytics.component[e.id]
+        context.community = analytics.community[e.id]
+      }
+      return context
+    }), this.config.nodeStyle)
 
-    result.linkBuffer = new Int32Array(linkBuffer)
+    nodes.forEach((e, i) => {
+      let info = result.nodeInfoMap[e.id]
+      let style = nodeStyles[i]
+      let color = e.color || style.color || NODE_COLOR
+      info.scale = pick(e.scale, style.size, 1)
+      info.color = color.map(c => c / 255) as RGB
+      info.opacity = pick(e.opacity, style.opacity, 1)
+      info.borderColor = (e.borderColor || style.borderColor || color).map(c => c / 255) as RGB
+      info.borderWidth = pick(e.borderWidth, style.borderWidth, 0)
+      info.shape = Math.max(NODE_SHAPES.indexOf(e.shape || style.shape), 0)
+    })
 
-    result.statTable = Object.keys(linkCountMap).map(e => {
+    let links = result.links.map(e => result.linkInfoMap[e.id].data)
+    let linkStyles: Array<LinkStyle> = this.resolveStyles(links, links.map((e, i) => {
       return {
-        source: e,
-        count: linkCountMap[e]
+        index: i,
+        source: result.nodeInfoMap[e.source].data,
+        target: result.nodeInfoMap[e.target].data
       }
-    }).sort((a, b) => {
-      return b.count - a.count
+    }), this.config.linkStyle)
+
+    result.links.forEach((e, i) => {
+      let info = result.linkInfoMap[e.id]
+      let style = linkStyles[i]
+      let data = info.data
+      let color = data.color || style.color
+      info.color = color && color.map(c => c / 255) as RGB
+      info.width = pick(data.width, style.width, this.config.lineWidth)
+      info.opacity = pick(data.opacity, style.opacity, 0.6)
+      info.dashed = !!pick(data.dashed, style.dashed, false)
     })
+  }
 
-    if(result.statTable.length > 20) {
-      result.statTable.length = 20
-    }
+  // 计算连线弯曲程度：同一对节点间有多条连线（含反向）时依次错开，单条连线为直线
+  // 自环的 curvature 为环的大小，同一节点上的多个自环依次增大
+  updateCurvatures(result: ProcessedData): void {
+    let groups: {
+      [key: string]: Array<D3Link>
+    } = {}
+    result.links.forEach(e => {
+      let key = JSON.stringify(e.source < e.target ? [e.source, e.target] : [e.target, e.source])
+      groups[key] = groups[key] || []
+      groups[key].push(e)
+    })
 
-    return result
+    Object.keys(groups).forEach(key => {
+      let links = groups[key]
+      links.forEach((e, i) => {
+        let info = result.linkInfoMap[e.id]
+        if(e.source === e.target) {
+          info.curvature = this.config.nodeSize / 1125 * result.nodeInfoMap[e.source].scale * 4 * (1 + i * 0.5)
+        }else {
+          // 偏移方向以 id 较小的节点为起点，反向连线取反，使其落在不同的一侧
+          let offset = (i - (links.length - 1) / 2) * CURVE_STEP
+          info.curvature = e.source < e.target ? offset : -offset
+        }
+      })
+    })
   }
 
-  prepareScene(): void {
-    this.scene = new THREE.Scene()
-    this.scene.background = new THREE.Color(this.config.backgroundColor[0] / 255, this.config.backgroundColor[1] / 255, this.config.backgroundColor[2] / 255)
-    this.renderer = new THREE.WebGLRenderer({
-      antialias: true,
-      logarithmicDepthBuffer: true
+  // 对每个条目求值样式配置：函数直接调用，对象中的常量原样使用，StyleMapping 按全部条目计算
+  resolveStyles<S extends NodeStyle | LinkStyle>(items: Array<GraphNode | GraphLink>, contexts: Array<NodeStyleContext | LinkStyleContext>, style: NodeStyleConfig | LinkStyleConfig): Array<S> {
+    if(typeof style === 'function') {
+      let accessor = style as (item: GraphNode | GraphLink, ctx: NodeStyleContext | LinkStyleContext) => S
+      return items.map((e, i) => accessor(e, contexts[i]) || {} as S)
+    }
+    let config = (style || {}) as {[key: string]: StyleValue | StyleMapping}
+    let result = items.map(() => ({} as S))
+    Object.keys(config).forEach(prop => {
+      let value = config[prop]
+      let values = this.isStyleMapping(value) ? this.mapStyleValues(items, contexts, value) : items.map(() => value as StyleValue)
+      values.forEach((e, i) => {
+        if(e !== undefined) {
+          Object.assign(result[i], {
+            [prop]: e
+          })
+        }
+      })
     })
-    this.renderer.setSize(this.config.width, this.config.height)
-    this.renderer.setPixelRatio(window.devicePixelRatio)
-    this.$container.appendChild(this.renderer.domElement)
-    this.camera = new THREE.PerspectiveCamera(45, this.config.width / this.config.height, 40, 18000)
-    this.camera.position.set(0, 0, this.getPositionZ(this.processedData.nodes.length))
-    this.camera.up = new THREE.Vector3(0, 0, 1)
-    this.camera.updateProjectionMatrix()
-    this.renderer.render(this.scene, this.camera)
-    this.containerRect = this.$container.getBoundingClientRect()
-    this.$container.classList.add('d3-force-graph-container')
+    return result
   }
 
-  prepareBasicMesh(): void {
-    // 预准备节点与线，使用BufferGeometry，位置先定到-9999
-    // z 关系
-    // 高亮节点：0.0001
-    // 头像：0.00005
-    // 节点: 0
-    // 高亮箭头：-0.0004
-    // 箭头：-0.0007
-    // 高亮线：-0.0009
+  isStyleMapping(value: StyleValue | StyleMapping): value is StyleMapping {
+    return !!value && typeof value === 'object' && !Array.isArray(value) && typeof value.field === 'string'
+  }
+
+  mapStyleValues(items: Array<GraphNode | GraphLink>, contexts: Array<NodeStyleContext | LinkStyleContext>, mapping: StyleMapping): Array<StyleValue> {
+    let values = items.map((e, i) => {
+      let context = contexts[i] as {[key: string]: unknown}
+      return e[mapping.field] !== undefined ? e[mapping.field] : context[mapping.field]
+    })
+    let scale = mapping.scale || 'linear'
+
+    if(scale === 'linear') {
+      let numbers = values.map(e => (e === undefined || e === null) ? NaN : Number(e))
+      let finite = numbers.filter(e => isFinite(e))
+      let domain = mapping.domain || [
+        finite.reduce((a, b) => Math.min(a, b), Infinity),
+        finite.reduce((a, b) => Math.max(a, b), -Infinity)
+      ]
+      let range = mapping.range || [0, 1]
+      let from = range[0]
+      let to = range[1]
+      return numbers.map(e => {
+        if(!isFinite(e)) {
+          return mapping.default
+        }
+        let t = domain[1] === domain[0] ? 0 : Math.min(Math.max((e - domain[0]) / (domain[1] - domain[0]), 0), 1)
+        if(Array.isArray(from)) {
+          let end = to as RGB
+          return from.map((c, j) => c + (end[j] - c) * t) as RGB
+        }
+        return (from as number) + ((to as number) - (from as number)) * t
+      })
+    }
+
+    // 按首次出现的顺序为每个取值分配 range 中的值
+    let palette = (scale === 'ordinal' && mapping.range) || CATEGORY10
+    let categories: {
+      [key: string]: number
+    } = {}
+    let count = 0
+    return values.map(e => {
+      if(e === undefined || e === null) {
+        return mapping.default
+      }
+      let key = String(e)
+      if(categories[key] === undefined) {
+        categories[key] = count++
+      }
+      return palette[categories[key] % palette.length]
+    })
+  }
+
+  // 重新求值样式并更新 GPU attributes，不会重新布局；传入 nodeStyle / linkStyle 时替换原配置
+  restyle(styles: Pick<GraphBaseConfig, 'nodeStyle' | 'linkStyle'> = {}): void {
+    this.flushDataSync()
+    Object.assign(this.config, styles)
+    this.applyStyles(this.processedData)
+    this.updateCurvatures(this.processedData)
+    this.updateNodesStyle()
+    this.updateLinesStyle()
+    Object.keys(this.processedData.nodeInfoMap).forEach(id => {
+      let info = this.processedData.nodeInfoMap[id]
+      if(info.imagePoint) {
+        info.imagePoint.material.uniforms.scale.value = info.scale
+      }
+    })
+    this.labelOrder = null
+    this.labelCacheKey = null
+    this.refreshHighLight()
+    this.renderSelection()
+    this.requestRender()
+  }
+
+  // 向 processedData 中追加节点，已存在的 id 会被忽略
+  appendNode(result: ProcessedData, node: GraphNode): boolean {
+    if(result.nodeInfoMap[node.id]) {
+      return false
+    }
+    result.nodes.push({
+      id: node.id
+    })
+    result.nodeInfoMap[node.id] = {
+      index: result.nodes.length - 1,
+      data: node,
+      fixed: !!node.fixed,
+      image: node.image,
+      name: node.name
+    }
+    return true
+  }
+
+  // 向 processedData 中追加连线，id 重复的连线与端点不存在的连线会被忽略
+  appendLink(result: ProcessedData, link: GraphLink): boolean {
+    if(!result.nodeInfoMap[link.source] || !result.nodeInfoMap[link.target]) {
+      return false
+    }
+    let id = link.id === undefined ? this.getLinkId(result, link) : link.id
+    if(result.linkInfoMap[id]) {
+      return false
+    }
+    result.links.push({
+      id,
+      source: link.source,
+      target: link.target
+    })
+    result.linkInfoMap[id] = {
+      data: link
+    }
+    return true
+  }
+
+  // 未提供 id 的连线使用 source-target，同一对节点间的后续连线追加序号
+  getLinkId(result: ProcessedData, link: GraphLink): string {
+    let id = `${link.source}-${link.target}`
+    for(let i = 1; result.linkInfoMap[id]; i++) {
+      id = `${link.source}-${link.target}-${i}`
+    }
+    return id
+  }
+
+  // 按 id 匹配连线，未提供 id 时匹配 source 与 target 之间的所有连线
+  findLinkIds(link: D3Link): Array<string> {
+    if(link.id !== undefined) {
+      return this.processedData.linkInfoMap[link.id] ? [link.id] : []
+    }
+    return this.processedData.links.filter(e => e.source === link.source && e.target === link.target).map(e => e.id)
+  }
+
+  getLinkBuffer(result: ProcessedData): Int32Array {
+    let linkBuffer = new Int32Array(result.links.length * 2)
+    result.links.forEach((e, i) => {
+      linkBuffer[i * 2] = result.nodeInfoMap[e.source].index
+      linkBuffer[i * 2 + 1] = result.nodeInfoMap[e.target].index
+    })
+    return linkBuffer
+  }
+
+  // 出度 top 20
+  getStatTable(result: ProcessedData): ProcessedData['statTable'] {
+    let linkCountMap: {
+      [key: string]: number
+    } = {}
+
+    result.links.forEach(e => {
+      linkCountMap[e.source] = (linkCountMap[e.source] || 0) + 1
+    })
+
+    let statTable = Object.keys(linkCountMap).map(e => {
+      return {
+        source: e,
+        count: linkCountMap[e]
+      }
+    }).sort((a, b) => {
+      return b.count - a.count
+    })
+
+    if(statTable.length > 20) {
+      statTable.length = 20
+    }
+
+    return statTable
+  }
+
+  // 增量添加节点，同一轮事件循环内的数据变更会合并后一次性同步给 worker
+  addNodes(nodes: Array<GraphNode>): void {
+    this.beforeDataChange()
+    let added = nodes.filter(e => this.appendNode(this.processedData, e))
+    if(added.length) {
+      this.data = {
+        nodes: this.data.nodes.concat(added),
+        links: this.data.links
+      }
+      this.scheduleDataSync()
+    }
+  }
+
+  // 增量添加连线，端点需已存在（或在同一轮中通过 addNodes 添加）
+  addLinks(links: Array<GraphLink>): void {
+    this.beforeDataChange()
+    let added = links.filter(e => this.appendLink(this.processedData, e))
+    if(added.length < links.length) {
+      this.config.debug && console.log(`addLinks: 忽略 ${links.length - added.length} 条重复或端点不存在的连线`)
+    }
+    if(added.length) {
+      this.data = {
+        nodes: this.data.nodes,
+        links: this.data.links.concat(added)
+      }
+      this.scheduleDataSync()
+    }
+  }
+
+  // 删除节点及其关联的连线
+  removeNodes(ids: Array<string>): void {
+    this.beforeDataChange()
+    let removed: {
+      [key: string]: boolean
+    } = {}
+    ids.forEach(id => {
+      let info = this.processedData.nodeInfoMap[id]
+      if(info) {
+        removed[id] = true
+        if(info.imagePoint) {
+          this.scene.remove(info.imagePoint.mesh)
+        }
+        delete this.processedData.nodeInfoMap[id]
+      }
+    })
+    if(!Object.keys(removed).length) {
+      return
+    }
+
+    this.processedData.nodes = this.processedData.nodes.filter(e => !removed[e.id])
+    this.processedData.nodes.forEach((e, i) => {
+      this.processedData.nodeInfoMap[e.id].index = i
+    })
+    this.processedData.links = this.processedData.links.filter(e => {
+      if(removed[e.source] || removed[e.target]) {
+        delete this.processedData.linkInfoMap[e.id]
+        return false
+      }
+      return true
+    })
+    this.data = {
+      nodes: this.data.nodes.filter(e => !removed[e.id]),
+      links: this.data.links.filter(e => !removed[e.source] && !removed[e.target])
+    }
+    this.scheduleDataSync()
+  }
+
+  // 删除连线，按 id 匹配，未提供 id 时删除 source 与 target 之间的所有连线
+  removeLinks(links: Array<D3Link>): void {
+    this.beforeDataChange()
+    let removed: {
+      [key: string]: boolean
+    } = {}
+    let removedData = new Set<GraphLink>()
+    links.forEach(link => {
+      this.findLinkIds(link).forEach(id => {
+        removed[id] = true
+        removedData.add(this.processedData.linkInfoMap[id].data)
+        delete this.processedData.linkInfoMap[id]
+      })
+    })
+    if(!Object.keys(removed).length) {
+      return
+    }
+
+    this.processedData.links = this.processedData.links.filter(e => !removed[e.id])
+    this.data = {
+      nodes: this.data.nodes,
+      links: this.data.links.filter(e => !removedData.has(e))
+    }
+    this.scheduleDataSync()
+  }
+
+  // 将一个分组替换为聚合节点，大小按成员数计算，与组外节点的连线合并为聚合连线
+  collapseGroup(group: string): void {
+    let nodes = this.processedData.nodes
+      .map(e => this.processedData.nodeInfoMap[e.id].data)
+      .filter(e => e.group === group)
+    if(this.collapsedGroups[group] || !nodes.length) {
+      return
+    }
+    let links = this.getOriginalLinks()
+    let positions = this.getPositions()
+    let placed = nodes.filter(e => positions[e.id])
+    let center = {
+      x: placed.reduce((sum, e) => sum + positions[e.id].x, 0) / placed.length,
+      y: placed.reduce((sum, e) => sum + positions[e.id].y, 0) / placed.length
+    }
+    let node: GraphNode = {
+      id: `${GROUP_PREFIX}${group}`,
+      name: group,
+      group,
+      scale: Math.sqrt(nodes.length),
+      count: nodes.length,
+      collapsed: true
+    }
+    let offsets: CollapsedGroup['offsets'] = {}
+    placed.forEach(e => {
+      offsets[e.id] = {
+        x: positions[e.id].x - center.x,
+        y: positions[e.id].y - center.y
+      }
+    })
+    if(placed.length) {
+      this.groupPositions[node.id] = center
+    }
+
+    this.collapsedGroups[group] = {
+      node,
+      nodes,
+      offsets
+    }
+    this.removeNodes(nodes.map(e => e.id))
+    this.addNodes([node])
+    this.updateGroupLinks(links)
+  }
+
+  // 展开折叠的分组，成员从聚合节点的位置按折叠前的相对位置散开
+  expandGroup(group: string): void {
+    let collapsed = this.collapsedGroups[group]
+    if(!collapsed) {
+      return
+    }
+    let links = this.getOriginalLinks()
+    let center = this.getPositions()[collapsed.node.id] || this.groupPositions[collapsed.node.id]
+    if(center) {
+      collapsed.nodes.forEach(e => {
+        let offset = collapsed.offsets[e.id]
+        this.groupPositions[e.id] = {
+          x: center.x + (offset ? offset.x * GROUP_EXPAND_RATIO : (Math.random() - 0.5) * 10),
+          y: center.y + (offset ? offset.y * GROUP_EXPAND_RATIO : (Math.random() - 0.5) * 10)
+        }
+      })
+    }
+
+    delete this.collapsedGroups[group]
+    delete this.groupPositions[collapsed.node.id]
+    this.removeNodes([collapsed.node.id])
+    this.addNodes(collapsed.nodes)
+    this.updateGroupLinks(links)
+  }
+
+  // 当前显示的原始连线与因折叠未显示的连线，不含聚合连线
+  getOriginalLinks(): Array<GraphLink> {
+    let groupLinks = new Set(this.groupLinks)
+    return this.collapsedLinks.concat(this.processedData.links
+      .map(e => this.processedData.linkInfoMap[e.id].data)
+      .filter(e => !groupLinks.has(e)))
+  }
+
+  // 按当前折叠状态重新划分原始连线：两端都显示的连线恢复显示，其余连线按聚合节点合并，组内连线不显示
+  updateGroupLinks(links: Array<GraphLink>): void {
+    let owners: {
+      [key: string]: string
+    } = {}
+    Object.keys(this.collapsedGroups).forEach(group => {
+      let collapsed = this.collapsedGroups[group]
+      collapsed.nodes.forEach(e => {
+        owners[e.id] = collapsed.node.id
+      })
+    })
+
+    let displayed = new Set(this.processedData.links.map(e => this.processedData.linkInfoMap[e.id].data))
+    let restored: Array<GraphLink> = []
+    let aggregated: {
+      [key: string]: GroupLink
+    } = {}
+    this.collapsedLinks = []
+    links.forEach(e => {
+      let source = owners[e.source] || e.source
+      let target = owners[e.target] || e.target
+      if(source === e.source && target === e.target) {
+        if(!displayed.has(e)) {
+          restored.push(e)
+        }
+        return
+      }
+      this.collapsedLinks.push(e)
+      if(source === target) {
+        return
+      }
+      let key = JSON.stringify([source, target])
+      aggregated[key] = aggregated[key] || {
+        id: `${GROUP_PREFIX}${source}-${target}`,
+        source,
+        target,
+        count: 0,
+        links: []
+      }
+      aggregated[key].count++
+      aggregated[key].links.push(e)
+    })
+
+    this.removeLinks(this.groupLinks.map(e => ({
+      id: e.id,
+      source: e.source,
+      target: e.target
+    })))
+    this.groupLinks = Object.keys(aggregated).map(key => aggregated[key])
+    this.addLinks(restored.concat(this.groupLinks))
+  }
+
+  // 记录上次同步给 worker 时各节点的下标，用于生成 indexMap
+  beforeDataChange(): void {
+    // 下标即将变化，先结束进行中的拖拽
+    if(this.dragStatus) {
+      this.dragEndHandler(this.dragStatus.event)
+    }
+    if(!this.pendingIndexMap) {
+      this.pendingIndexMap = {}
+      this.processedData.nodes.forEach((e, i) => {
+        this.pendingIndexMap[e.id] = i
+      })
+    }
+  }
+
+  scheduleDataSync(): void {
+    this.adjacency = null
+    this.analytics = null
+    this.analyticsVersion++
+    if(!this.dataSyncPending) {
+      this.dataSyncPending = true
+      Promise.resolve().then(() => {
+        this.syncData()
+      }).catch(e => {
+        console.log(e)
+      })
+    }
+  }
+
+  // 数据变更后、同步前 processedData 已使用新的下标，而位置与 visible 等 buffer 仍是旧的
+  // 按下标读取这些 buffer 前先完成同步
+  flushDataSync(): void {
+    if(this.pendingIndexMap) {
+      this.syncData()
+    }
+  }
+
+  // 将数据变更同步到 buffer 与 worker，并从当前位置重新加热布局
+  syncData(): void {
+    let prevIndexMap = this.pendingIndexMap
+    this.pendingIndexMap = null
+    this.dataSyncPending = false
+    if(!this.worker || !prevIndexMap) {
+      return
+    }
+
+    let prevPositions = this.currentPositionStatus || this.targetPositionStatus
+    let nodeCounts = this.processedData.nodes.length
+    let indexMap = new Int32Array(nodeCounts)
+    let positions = new Float32Array(nodeCounts * 2)
+    let fixed = new Uint8Array(nodeCounts)
+
+    this.processedData.nodes.forEach((e, i) => {
+      let prevIndex = prevIndexMap[e.id]
+      let position = (prevIndex === undefined || !prevPositions) ? this.getInitialPosition(e.id) : {
+        x: prevPositions[prevIndex * 2],
+        y: prevPositions[prevIndex * 2 + 1]
+      }
+      indexMap[i] = prevIndex === undefined ? -1 : prevIndex
+      positions[i * 2] = position.x
+      positions[i * 2 + 1] = position.y
+      fixed[i] = this.processedData.nodeInfoMap[e.id].fixed ? 1 : 0
+    })
+
+    // 新增节点放到已有邻居附近，孤立节点交给 d3 初始化
+    this.processedData.links.forEach(e => {
+      let sourceIndex = this.processedData.nodeInfoMap[e.source].index
+      let targetIndex = this.processedData.nodeInfoMap[e.target].index
+      let from = isNaN(positions[sourceIndex * 2]) ? targetIndex : sourceIndex
+      let to = from === sourceIndex ? targetIndex : sourceIndex
+      if(isNaN(positions[to * 2]) && !isNaN(positions[from * 2])) {
+        positions[to * 2] = positions[from * 2] + (Math.random() - 0.5) * 10
+        positions[to * 2 + 1] = positions[from * 2 + 1] + (Math.random() - 0.5) * 10
+      }
+    })
+
+    this.processedData.linkBuffer = this.getLinkBuffer(this.processedData)
+    this.processedData.statTable = this.getStatTable(this.processedData)
+    this.renderHudHubs()
+    this.applyStyles(this.processedData)
+    this.updateCurvatures(this.processedData)
+    this.perfInfo.nodeCounts = nodeCounts
+    this.perfInfo.linkCounts = this.processedData.links.length
+
+    this.targetPositionStatus = positions
+    this.currentPositionStatus = new Float32Array(positions)
+    this.cachePositionStatus = new Float32Array(positions)
+    this.updateNodesGeometry(positions)
+    this.updateLinesGeometry(positions)
+    this.applyFilter()
+    this.updateHulls(positions)
+
+    this.refreshHighLight()
+    // 已删除的节点移出选择
+    let selected = this.getSelectedIds()
+    if(selected.length !== Object.keys(this.selected).length) {
+      this.select(selected, false)
+    }else {
+      this.renderSelection()
+    }
+    this.linkPickCache = null
+    this.labelOrder = null
+    this.prepareRelayout()
+
+    let message = {
+      type: 'update',
+      indexMap: indexMap.buffer,
+      positions: new Float32Array(positions).buffer,
+      fixed: fixed.buffer,
+      linksBuffer: this.processedData.linkBuffer.buffer,
+      forces: this.getForceMessage(),
+      layout: this.getLayoutMessage(),
+      alpha: REHEAT_ALPHA,
+      sharedPositions: this.allocSharedPositions(),
+      sharedVersion: this.sharedVersion
+    }
+
+    this.worker.postMessage(message, [message.indexMap, message.positions, message.fixed, message.linksBuffer])
+    if(this.filter.excludeFromLayout) {
+      this.postFilter(null)
+    }
+    if(this.config.analytics) {
+      this.analyze().catch(e => {
+        console.log(e)
+      })
+    }
+  }
+
+  // 重新加热布局前：移除箭头（布局结束后重新生成），重置布局计时
+  prepareRelayout(): void {
+    this.scene.remove(this.scene.getObjectByName('arrows'))
+    this.perfInfo.layouting = true
+    this.perfInfo.layoutStartTime = Date.now()
+    this.perfInfo.prevTickTime = 0
+    this.startRender()
+  }
+
+  // 运行时修改力模型，与已有配置合并后从当前位置重新加热
+  setForces(forces: ForceConfig, alpha: number = REHEAT_ALPHA): void {
+    this.config.forces = Object.assign({}, this.config.forces, forces)
+    this.prepareRelayout()
+    this.worker.postMessage({
+      type: 'forces',
+      forces: this.getForceMessage(),
+      alpha
+    })
+  }
+
+  // 数据中提供的初始位置，未提供时为 NaN
+  getInitialPosition(id: string): GraphPosition {
+    let position = this.groupPositions[id]
+    if(position) {
+      delete this.groupPositions[id]
+      return position
+    }
+    let data = this.processedData.nodeInfoMap[id].data
+    return {
+      x: typeof data.x === 'number' ? data.x : NaN,
+      y: typeof data.y === 'number' ? data.y : NaN
+    }
+  }
+
+  // 当前各节点位置 id → {x, y}，数据变更尚未同步时按变更前的下标读取，新增的节点没有位置
+  getPositions(): {[key: string]: GraphPosition} {
+    let positions = this.targetPositionStatus || this.currentPositionStatus
+    let indexMap = this.pendingIndexMap
+    let result: {[key: string]: GraphPosition} = {}
+    if(positions) {
+      this.processedData.nodes.forEach((e, i) => {
+        let index = indexMap ? indexMap[e.id] : i
+        if(index !== undefined) {
+          result[e.id] = {
+            x: positions[index * 2],
+            y: positions[index * 2 + 1]
+          }
+        }
+      })
+    }
+    return result
+  }
+
+  // 导出布局 id → {x, y, fixed}，写回 GraphData.nodes 即可还原
+  exportLayout(): GraphLayout {
+    let positions = this.getPositions()
+    let result: GraphLayout = {}
+    Object.keys(positions).forEach(id => {
+      result[id] = {
+        x: positions[id].x,
+        y: positions[id].y,
+        fixed: this.processedData.nodeInfoMap[id].fixed
+      }
+    })
+    return result
+  }
+
+  // 暂停布局，保留当前位置与 alpha
+  pauseLayout(): void {
+    this.worker.postMessage({
+      type: 'pause'
+    })
+  }
+
+  resumeLayout(): void {
+    this.perfInfo.layouting = true
+    this.startRender()
+    this.worker.postMessage({
+      type: 'resume'
+    })
+  }
+
+  // 以指定 alpha 从当前位置重新开始布局
+  reheat(alpha: number = REHEAT_ALPHA): void {
+    this.prepareRelayout()
+    this.worker.postMessage({
+      type: 'reheat',
+      alpha
+    })
+  }
+
+  // 结束布局并保留当前位置，之后可通过 reheat 重新开始
+  stopLayout(): void {
+    this.worker.postMessage({
+      type: 'stop'
+    })
+  }
+
+  // 切换布局算法，从当前位置过渡到新布局，切换到 force 时以 alpha 重新加热
+  setLayout(layout: LayoutType | LayoutConfig, alpha: number = REHEAT_ALPHA): void {
+    this.config.layout = layout
+    this.prepareRelayout()
+    this.worker.postMessage({
+      type: 'layout',
+      layout: this.getLayoutMessage(),
+      alpha
+    })
+  }
+
+  // 合并默认布局参数，根节点 id 转为下标
+  getLayoutMessage(): object {
+    let layout = typeof this.config.layout === 'string' ? {
+      type: this.config.layout
+    } : this.config.layout
+    let result = Object.assign({}, GRAPH_LAYOUT_CONFIG, layout)
+    return Object.assign(result, {
+      roots: result.roots.filter(id => this.processedData.nodeInfoMap[id]).map(id => this.processedData.nodeInfoMap[id].index)
+    })
+  }
+
+  // 修改 tick 预算、时间预算与 alpha 参数，对进行中的布局立即生效
+  setSimulationOptions(options: SimulationConfig): void {
+    this.config.simulation = Object.assign({}, this.config.simulation, options)
+    this.worker.postMessage({
+      type: 'simulation',
+      simulation: this.config.simulation
+    })
+  }
+
+  // 默认力参数，charge.strength、link.distance、collide.radius 按节点数拟合
+  getDefaultForceConfig(): ForceConfig {
+    let nodeCounts = this.perfInfo.nodeCounts
+    return {
+      charge: Object.assign({}, GRAPH_FORCE_CONFIG.charge, {
+        strength: this.getStrength(nodeCounts)
+      }),
+      link: Object.assign({}, GRAPH_FORCE_CONFIG.link, {
+        distance: this.getDistance(nodeCounts)
+      }),
+      center: GRAPH_FORCE_CONFIG.center,
+      collide: Object.assign({}, GRAPH_FORCE_CONFIG.collide, {
+        radius: this.getCol(nodeCounts)
+      }),
+      x: GRAPH_FORCE_CONFIG.x,
+      y: GRAPH_FORCE_CONFIG.y,
+      radial: GRAPH_FORCE_CONFIG.radial,
+      cluster: GRAPH_FORCE_CONFIG.cluster
+    }
+  }
+
+  // 合并默认力参数与用户配置，关闭的力为 false
+  getForceConfig(): ForceConfig {
+    let userForces: ForceConfig = this.config.forces || {}
+    let defaults = this.getDefaultForceConfig()
+    let optional = ['x', 'y', 'radial']
+    let result: ForceConfig = {}
+
+    Object.keys(defaults).forEach((key: keyof ForceConfig) => {
+      if(userForces[key] === false || (userForces[key] === undefined && optional.indexOf(key) !== -1)) {
+        result[key] = false
+      }else {
+        result[key] = Object.assign({}, defaults[key], userForces[key])
+      }
+    })
+    return result
+  }
+
+  // 生成发给 worker 的力参数，字段名会按节点/连线下标展开为 Float32Array
+  getForceMessage(): ForceMessage {
+    let forces = this.getForceConfig()
+    let defaults = this.getDefaultForceConfig()
+    let result: ForceMessage = {}
+
+    Object.keys(forces).forEach((key: keyof ForceConfig) => {
+      let force = forces[key] as {[key: string]: ForceValue}
+      let defaultForce = defaults[key] as {[key: string]: number}
+      if(!force) {
+        result[key] = null
+        return
+      }
+      result[key] = {}
+      Object.keys(force).forEach(prop => {
+        let value = force[prop]
+        result[key][prop] = typeof value === 'string' ? this.getForceValues(key === 'link', value, defaultForce[prop]) : value
+      })
+    })
+    if(result.cluster) {
+      result.cluster.groups = this.getGroupIndices()
+    }
+    return result
+  }
+
+  // 各节点所属分组的编号，未分组为 -1
+  getGroupIndices(): Int32Array {
+    let indices: {
+      [key: string]: number
+    } = {}
+    let count = 0
+    let groups = new Int32Array(this.processedData.nodes.length)
+    this.processedData.nodes.forEach((e, i) => {
+      let group = this.processedData.nodeInfoMap[e.id].data.group
+      if(group === undefined || group === null) {
+        groups[i] = -1
+        return
+      }
+      if(indices[group] === undefined) {
+        indices[group] = count++
+      }
+      groups[i] = indices[group]
+    })
+    return groups
+  }
+
+  getForceValues(isLink: boolean, field: string, defaultValue: number): Float32Array {
+    let items: Array<GraphNode | GraphLink> = isLink
+      ? this.processedData.links.map(e => this.processedData.linkInfoMap[e.id].data)
+      : this.processedData.nodes.map(e => this.processedData.nodeInfoMap[e.id].data)
+    let values = new Float32Array(items.length)
+    items.forEach((e, i) => {
+      let value = Number(e[field])
+      values[i] = (e[field] === undefined || e[field] === null || isNaN(value)) ? defaultValue : value
+    })
+    return values
+  }
+
+  prepareScene(): void {
+    this.scene = new THREE.Scene()
+    this.scene.background = new THREE.Color(this.config.backgroundColor[0] / 255, this.config.backgroundColor[1] / 255, this.config.backgroundColor[2] / 255)
+    this.renderer = new THREE.WebGLRenderer({
+      antialias: true,
+      logarithmicDepthBuffer: true
+    })
+    this.renderer.setSize(this.config.width, this.config.height)
+    this.renderer.setPixelRatio(window.devicePixelRatio)
+    this.$container.appendChild(this.renderer.domElement)
+    this.camera = new THREE.PerspectiveCamera(45, this.config.width / this.config.height, 40, 18000)
+    this.camera.position.set(0, 0, this.getPositionZ(this.processedData.nodes.length))
+    this.camera.up = new THREE.Vector3(0, 0, 1)
+    this.camera.updateProjectionMatrix()
+    this.renderer.render(this.scene, this.camera)
+    this.containerRect = this.$container.getBoundingClientRect()
+    this.$container.classList.add('d3-force-graph-container')
+  }
+
+  prepareBasicMesh(): void {
+    // 预准备节点与线，使用BufferGeometry，位置先定到-9999
+    // z 关系
+    // 标签：0.0002
+    // 高亮节点：0.0001
+    // 头像：0.00005
+    // 节点: 0
+    // 高亮箭头：-0.0004
+    // 箭头：-0.0007
+    // 高亮线：-0.0009
     // 线：-0.001
+    // 分组包络：-0.002
     this.perfInfo.layoutStartTime = Date.now()
 
     this.nodes.geometry = new THREE.BufferGeometry()
-    this.nodes.positions = new Float32Array(this.perfInfo.nodeCounts * 3)
-    this.nodes.scale = new Float32Array(this.perfInfo.nodeCounts)
-
     this.nodes.material = new THREE.ShaderMaterial({
-      uniforms: {
-        texture: {
-          type: 't',
-          value: NODE_TEXTURE
-        },
+      transparent: true,
+      uniforms: Object.assign({
         'u_compensation': {
           value: window.devicePixelRatio * this.config.height / BASE_HEIGHT
         }
-      },
+      }, this.focusUniforms),
       vertexShader: nodesVS({
         nodeSize: this.config.nodeSize.toFixed(8)
       }),
@@ -395,63 +1964,185 @@ export class D3ForceGraph {
 
     this.nodes.material.extensions.derivatives = true
 
+    this.updateNodesGeometry()
+    this.nodes.mesh = new THREE.Points(this.nodes.geometry, this.nodes.material)
+    this.nodes.mesh.name = 'basePoints'
+    this.scene.add(this.nodes.mesh)
+
+    this.lines.geometry = this.createLineGeometry()
+    this.lines.material = new THREE.ShaderMaterial({
+      transparent: true,
+      uniforms: Object.assign(this.getLineUniforms(), this.focusUniforms),
+      vertexShader: linesVS(),
+      fragmentShader: linesFS()
+    })
+
+    this.updateLinesGeometry()
+    this.lines.mesh = new THREE.Mesh(this.lines.geometry, this.lines.material)
+    this.lines.mesh.name = 'baseLines'
+    this.lines.mesh.position.z = -0.001
+    this.lines.mesh.frustumCulled = false
+    this.scene.add(this.lines.mesh)
+  }
+
+  // 按 processedData 重新分配节点 buffer，positions 为空时位置先定到 -9999
+  updateNodesGeometry(positions?: Float32Array): void {
+    this.nodes.positions = new Float32Array(this.perfInfo.nodeCounts * 3)
+
+    this.processedData.nodes.forEach((e, i) => {
+      this.nodes.positions[i * 3] = positions ? positions[i * 2] : -9999
+      this.nodes.positions[i * 3 + 1] = positions ? positions[i * 2 + 1] : -9999
+      this.nodes.positions[i * 3 + 2] = 0
+    })
+
+    this.nodes.focused = new Float32Array(this.perfInfo.nodeCounts)
+    this.nodes.visibles = new Float32Array(this.perfInfo.nodeCounts).fill(1)
+    this.nodes.geometry.addAttribute('position', new THREE.BufferAttribute(this.nodes.positions, 3))
+    this.nodes.geometry.addAttribute('focused', new THREE.BufferAttribute(this.nodes.focused, 1))
+    this.nodes.geometry.addAttribute('visible', new THREE.BufferAttribute(this.nodes.visibles, 1))
+    this.updateNodesStyle()
+    this.nodes.geometry.computeBoundingSphere()
+  }
+
+  // 按 nodeInfoMap 中的样式更新节点 attributes
+  updateNodesStyle(): void {
+    this.nodes.scale = new Float32Array(this.perfInfo.nodeCounts)
+    this.nodes.colors = new Float32Array(this.perfInfo.nodeCounts * 3)
+    this.nodes.opacities = new Float32Array(this.perfInfo.nodeCounts)
+    this.nodes.borderColors = new Float32Array(this.perfInfo.nodeCounts * 3)
+    this.nodes.borderWidths = new Float32Array(this.perfInfo.nodeCounts)
+    this.nodes.shapes = new Float32Array(this.perfInfo.nodeCounts)
+
     this.processedData.nodes.forEach((e, i) => {
-      this.nodes.positions[i * 3] = -9999
-      this.nodes.positions[i * 3 + 1] = -9999
-      this.nodes.positions[i * 3 + 2] = 0
-      this.nodes.scale[i] = this.processedData.nodeInfoMap[e.id].scale || 1
+      let info = this.processedData.nodeInfoMap[e.id]
+      this.nodes.scale[i] = info.scale
+      this.nodes.colors.set(info.color, i * 3)
+      this.nodes.opacities[i] = info.opacity
+      this.nodes.borderColors.set(info.borderColor, i * 3)
+      this.nodes.borderWidths[i] = info.borderWidth
+      this.nodes.shapes[i] = info.shape
     })
 
-    this.nodes.geometry.addAttribute('position', new THREE.BufferAttribute(this.nodes.positions, 3))
     this.nodes.geometry.addAttribute('scale', new THREE.BufferAttribute(this.nodes.scale, 1))
-    this.nodes.geometry.computeBoundingSphere()
-    this.nodes.mesh = new THREE.Points(this.nodes.geometry, this.nodes.material)
-    this.nodes.mesh.name = 'basePoints'
-    this.scene.add(this.nodes.mesh)
+    this.nodes.geometry.addAttribute('color', new THREE.BufferAttribute(this.nodes.colors, 3))
+    this.nodes.geometry.addAttribute('opacity', new THREE.BufferAttribute(this.nodes.opacities, 1))
+    this.nodes.geometry.addAttribute('borderColor', new THREE.BufferAttribute(this.nodes.borderColors, 3))
+    this.nodes.geometry.addAttribute('borderWidth', new THREE.BufferAttribute(this.nodes.borderWidths, 1))
+    this.nodes.geometry.addAttribute('shape', new THREE.BufferAttribute(this.nodes.shapes, 1))
+  }
 
-    this.lines.geometry = new THREE.BufferGeometry()
-    this.lines.positions = new Float32Array(this.perfInfo.linkCounts * 6)
-    this.lines.colors = new Float32Array(this.perfInfo.linkCounts * 6)
+  // 按 processedData 重新分配连线 buffer，positions 为空时位置先定到 -9999
+  // 每条连线的两端点为一个实例：[sourceX, sourceY, targetX, targetY]
+  updateLinesGeometry(positions?: Float32Array): void {
+    this.lines.positions = new Float32Array(this.perfInfo.linkCounts * 4)
 
-    this.lines.material = new THREE.ShaderMaterial({
-      transparent: true,
-      opacity: 0.6,
-      vertexShader: linesVS(),
-      fragmentShader: linesFS()
+    this.processedData.links.forEach((e, i) => {
+      let sourceIndex = this.processedData.nodeInfoMap[e.source].index
+      let targetIndex = this.processedData.nodeInfoMap[e.target].index
+      this.lines.positions[i * 4] = positions ? positions[sourceIndex * 2] : -9999
+      this.lines.positions[i * 4 + 1] = positions ? positions[sourceIndex * 2 + 1] : -9999
+      this.lines.positions[i * 4 + 2] = positions ? positions[targetIndex * 2] : -9999
+      this.lines.positions[i * 4 + 3] = positions ? positions[targetIndex * 2 + 1] : -9999
     })
 
+    this.lines.focused = new Float32Array(this.perfInfo.linkCounts)
+    this.lines.visibles = new Float32Array(this.perfInfo.linkCounts).fill(1)
+    this.lines.geometry.addAttribute('endpoints', new THREE.InstancedBufferAttribute(this.lines.positions, 4))
+    this.lines.geometry.addAttribute('focused', new THREE.InstancedBufferAttribute(this.lines.focused, 1))
+    this.lines.geometry.addAttribute('visible', new THREE.InstancedBufferAttribute(this.lines.visibles, 1))
+    ;(this.lines.geometry as THREE.InstancedBufferGeometry).maxInstancedCount = this.perfInfo.linkCounts
+    this.updateLinesStyle()
+  }
+
+  // 按 linkInfoMap 中的样式与弯曲程度更新连线 attributes
+  updateLinesStyle(): void {
+    this.lines.colors = new Float32Array(this.perfInfo.linkCounts * 3)
+    this.lines.opacities = new Float32Array(this.perfInfo.linkCounts)
+    this.lines.widths = new Float32Array(this.perfInfo.linkCounts)
+    this.lines.dashes = new Float32Array(this.perfInfo.linkCounts)
+    this.lines.curvatures = new Float32Array(this.perfInfo.linkCounts)
+
     this.processedData.links.forEach((e, i) => {
-      this.lines.positions[i * 6] = -9999
-      this.lines.positions[i * 6 + 1] = -9999
-      this.lines.positions[i * 6 + 2] = -0.001
-      this.lines.positions[i * 6 + 3] = -9999
-      this.lines.positions[i * 6 + 4] = -9999
-      this.lines.positions[i * 6 + 5] = -0.001
-
-      if(this.processedData.linkInfoMap[`${e.source}-${e.target}`].color) {
-        this.lines.colors[i * 6] = this.processedData.linkInfoMap[`${e.source}-${e.target}`].color[0]
-        this.lines.colors[i * 6 + 1] = this.processedData.linkInfoMap[`${e.source}-${e.target}`].color[1]
-        this.lines.colors[i * 6 + 2] = this.processedData.linkInfoMap[`${e.source}-${e.target}`].color[2]
-        this.lines.colors[i * 6 + 3] = this.processedData.linkInfoMap[`${e.source}-${e.target}`].color[0]
-        this.lines.colors[i * 6 + 4] = this.processedData.linkInfoMap[`${e.source}-${e.target}`].color[1]
-        this.lines.colors[i * 6 + 5] = this.processedData.linkInfoMap[`${e.source}-${e.target}`].color[2]
-      }else {
-        this.lines.colors[i * 6] = 1
-        this.lines.colors[i * 6 + 1] = 1
-        this.lines.colors[i * 6 + 2] = 1
-        this.lines.colors[i * 6 + 3] = 1
-        this.lines.colors[i * 6 + 4] = 1
-        this.lines.colors[i * 6 + 5] = 1
-      }
+      let info = this.processedData.linkInfoMap[e.id]
+      this.lines.colors.set(info.color || [1, 1, 1], i * 3)
+      this.lines.opacities[i] = info.opacity
+      this.lines.widths[i] = info.width
+      this.lines.dashes[i] = info.dashed ? 1 : 0
+      this.lines.curvatures[i] = info.curvature
     })
 
-    this.lines.geometry.addAttribute('position', new THREE.BufferAttribute(this.lines.positions, 3))
-    this.lines.geometry.addAttribute('color', new THREE.BufferAttribute(this.lines.colors, 3))
-    this.lines.geometry.computeBoundingSphere()
+    this.setLineSegments(this.lines.geometry, this.getCurveSegments(this.processedData.links))
+    this.lines.geometry.addAttribute('curvature', new THREE.InstancedBufferAttribute(this.lines.curvatures, 1))
 
-    this.lines.mesh = new THREE.LineSegments(this.lines.geometry, this.lines.material)
-    this.lines.mesh.name = 'baseLines'
-    this.scene.add(this.lines.mesh)
+    this.lines.geometry.addAttribute('color', new THREE.InstancedBufferAttribute(this.lines.colors, 3))
+    this.lines.geometry.addAttribute('opacity', new THREE.InstancedBufferAttribute(this.lines.opacities, 1))
+    this.lines.geometry.addAttribute('width', new THREE.InstancedBufferAttribute(this.lines.widths, 1))
+    this.lines.geometry.addAttribute('dashed', new THREE.InstancedBufferAttribute(this.lines.dashes, 1))
+  }
+
+  createLineGeometry(): THREE.InstancedBufferGeometry {
+    let geometry = new THREE.InstancedBufferGeometry()
+    this.setLineSegments(geometry, 1)
+    return geometry
+  }
+
+  // 每条连线实例化为 segments 段四边形，x 为沿线位置（0 起点，1 终点），y 为线宽方向
+  setLineSegments(geometry: THREE.BufferGeometry, segments: number): void {
+    let position = geometry.getAttribute('position')
+    if(position && position.count === (segments + 1) * 2) {
+      return
+    }
+    let positions = new Float32Array((segments + 1) * 6)
+    let index = []
+    for(let i = 0; i <= segments; i++) {
+      positions.set([i / segments, -1, 0, i / segments, 1, 0], i * 6)
+      if(i < segments) {
+        index.push(i * 2, i * 2 + 2, i * 2 + 1, i * 2 + 2, i * 2 + 3, i * 2 + 1)
+      }
+    }
+    geometry.addAttribute('position', new THREE.BufferAttribute(positions, 3))
+    geometry.setIndex(index)
+  }
+
+  // 全部为直线时每条连线只需一段
+  getCurveSegments(links: Array<D3Link>): number {
+    return links.some(e => this.processedData.linkInfoMap[e.id].curvature !== 0) ? CURVE_SEGMENTS : 1
+  }
+
+  // 连线的三次贝塞尔控制点 [x0, y0, x1, y1, x2, y2, x3, y3]，与 lines.vs 中的计算一致
+  getLinkCurve(link: D3Link, positions: Float32Array): Array<number> {
+    let sourceIndex = this.processedData.nodeInfoMap[link.source].index
+    let targetIndex = this.processedData.nodeInfoMap[link.target].index
+    let x0 = positions[sourceIndex * 2]
+    let y0 = positions[sourceIndex * 2 + 1]
+    let x3 = positions[targetIndex * 2]
+    let y3 = positions[targetIndex * 2 + 1]
+    let curvature = this.processedData.linkInfoMap[link.id].curvature
+    if(x0 === x3 && y0 === y3) {
+      return [x0, y0, x0 - 0.5 * curvature, y0 + 0.8660254 * curvature, x0 + 0.5 * curvature, y0 + 0.8660254 * curvature, x3, y3]
+    }
+    let cx = (x0 + x3) / 2 - (y3 - y0) * curvature
+    let cy = (y0 + y3) / 2 + (x3 - x0) * curvature
+    return [x0, y0, cx, cy, cx, cy, x3, y3]
+  }
+
+  getCurvePoint(curve: Array<number>, t: number): GraphPosition {
+    let s = 1 - t
+    return {
+      x: s * s * s * curve[0] + 3 * s * s * t * curve[2] + 3 * s * t * t * curve[4] + t * t * t * curve[6],
+      y: s * s * s * curve[1] + 3 * s * s * t * curve[3] + 3 * s * t * t * curve[5] + t * t * t * curve[7]
+    }
+  }
+
+  getLineUniforms(): {[key: string]: THREE.IUniform} {
+    return {
+      'u_resolution': {
+        value: new THREE.Vector2(this.config.width, this.config.height)
+      },
+      'u_dash': {
+        value: new THREE.Vector2(this.config.lineDash[0], this.config.lineDash[1])
+      }
+    }
   }
 
   initWorker(): void {
@@ -459,46 +2150,157 @@ export class D3ForceGraph {
       type: 'text/javascript'
     })
 
-    this.worker = new Worker(window.URL.createObjectURL(blob))
+    let url = window.URL.createObjectURL(blob)
+    this.worker = new Worker(url)
+
+    // 辅助 worker 通过 MessageChannel 直接接收主 worker 分配的计算
+    if(this.config.workers > 1 && this.isSharedMemorySupported()) {
+      let ports: Array<MessagePort> = []
+      for(let k = 1; k < this.config.workers; k++) {
+        let channel = new MessageChannel()
+        let helper = new Worker(url)
+        helper.postMessage({
+          type: 'helper',
+          port: channel.port2
+        }, [channel.port2])
+        this.helpers.push(helper)
+        ports.push(channel.port1)
+      }
+      this.worker.postMessage({
+        type: 'helpers',
+        ports
+      }, ports)
+    }
+  }
+
+  // 未跨源隔离的页面中 SharedArrayBuffer 不可用或不能发送给 worker
+  isSharedMemorySupported(): boolean {
+    return typeof SharedArrayBuffer !== 'undefined' && window.crossOriginIsolated !== false
+  }
+
+  // 按当前节点数重新分配共享的位置缓冲区，不使用共享内存时返回 null
+  allocSharedPositions(): ArrayBuffer {
+    this.sharedVersion++
+    this.sharedSequence = 0
+    if(!this.config.sharedMemory || !this.isSharedMemorySupported()) {
+      this.sharedPositions = null
+      this.sharedControl = null
+      return null
+    }
+    let buffer = new SharedArrayBuffer(SHARED_HEADER * 4 + this.perfInfo.nodeCounts * 4 * 4)
+    this.sharedControl = new Int32Array(buffer, 0, SHARED_HEADER)
+    this.sharedControl[SHARED_READING] = -1
+    this.sharedPositions = new Float32Array(buffer, SHARED_HEADER * 4)
+    return buffer
+  }
+
+  // 读取 tick / end 消息中的位置，共享内存模式下读取 worker 最近写完的槽位，复制到复用的数组中
+  // 读取期间 worker 不会写入该槽位；没有新写入的位置时返回 null
+  readPositions(data: WorkerPositionMessage): Float32Array {
+    if(data.nodes) {
+      return new Float32Array(data.nodes)
+    }
+    let published: number
+    do {
+      published = Atomics.load(this.sharedControl, SHARED_PUBLISHED)
+      Atomics.store(this.sharedControl, SHARED_READING, published & 1)
+    } while(Atomics.load(this.sharedControl, SHARED_PUBLISHED) !== published)
+
+    let sequence = published >> 1
+    let positions: Float32Array = null
+    if(sequence !== this.sharedSequence) {
+      let length = this.perfInfo.nodeCounts * 2
+      let offset = (published & 1) * length
+      if(!this.sharedReadPositions || this.sharedReadPositions.length !== length) {
+        this.sharedReadPositions = new Float32Array(length)
+      }
+      this.sharedReadPositions.set(this.sharedPositions.subarray(offset, offset + length))
+      this.sharedSequence = sequence
+      positions = this.sharedReadPositions
+    }
+    Atomics.store(this.sharedControl, SHARED_READING, -1)
+    Atomics.notify(this.sharedControl, SHARED_READING)
+    return positions
+  }
+
+  // 共享缓冲区已按新的节点数重新分配，丢弃之前发出的位置
+  isStaleMessage(data: WorkerPositionMessage): boolean {
+    return data.sharedVersion !== undefined && data.sharedVersion !== this.sharedVersion
+  }
+
+  // 当前位置复制自目标位置而不共用数组，共享内存模式下目标位置是复用的读取数组
+  copyTargetPosition(): void {
+    if(this.currentPositionStatus && this.currentPositionStatus.length === this.targetPositionStatus.length) {
+      this.currentPositionStatus.set(this.targetPositionStatus)
+    }else {
+      this.currentPositionStatus = new Float32Array(this.targetPositionStatus)
+    }
   }
 
   start(): void {
+    let positions = new Float32Array(this.perfInfo.nodeCounts * 2)
+    let fixed = new Uint8Array(this.perfInfo.nodeCounts)
+    this.processedData.nodes.forEach((e, i) => {
+      let position = this.getInitialPosition(e.id)
+      positions[i * 2] = position.x
+      positions[i * 2 + 1] = position.y
+      fixed[i] = this.processedData.nodeInfoMap[e.id].fixed ? 1 : 0
+    })
+
     let message = {
       type: 'start',
       nodes: this.perfInfo.nodeCounts,
-      DISTANCE: this.getDistance(this.perfInfo.nodeCounts),
-      STRENGTH: this.getStrength(this.perfInfo.nodeCounts),
-      COL: this.getCol(this.perfInfo.nodeCounts),
-      linksBuffer: this.processedData.linkBuffer.buffer
+      positions: positions.buffer,
+      fixed: fixed.buffer,
+      forces: this.getForceMessage(),
+      simulation: this.config.simulation,
+      layout: this.getLayoutMessage(),
+      linksBuffer: this.processedData.linkBuffer.buffer,
+      sharedPositions: this.allocSharedPositions(),
+      sharedVersion: this.sharedVersion
     }
 
-    this.worker.postMessage(message, [message.linksBuffer])
+    this.worker.postMessage(message, [message.positions, message.fixed, message.linksBuffer])
 
-    this.worker.onmessage = (event) => {
-      switch (event.data.type) {
+    this.worker.onmessage = (event: MessageEvent) => {
+      let data: WorkerMessage = event.data
+      switch (data.type) {
         case('tick'): {
+          if(this.isStaleMessage(data)) {
+            break
+          }
           // 每次 tick 时，记录该次 tick 时间和与上次 tick 的时间差，用于补间动画
           let now = Date.now()
           this.perfInfo.layouting = true
-          this.perfInfo.layoutProgress = (event.data.progress * 100).toFixed(2)
+          this.perfInfo.layoutProgress = (data.progress * 100).toFixed(2)
           this.perfInfo.layoutPastTime = now - this.perfInfo.layoutStartTime
+          this.perfInfo.alpha = data.alpha
 
-          this.perfInfo.intervalTime = now - (this.perfInfo.prevTickTime || now)
-          this.perfInfo.prevTickTime = now
+          // 共享内存模式下此前的 tick 可能已读到更新的位置，此时不再更新目标位置
+          let positions = this.readPositions(data)
+          if(positions) {
+            this.perfInfo.intervalTime = now - (this.perfInfo.prevTickTime || now)
+            this.perfInfo.prevTickTime = now
+          }
 
-          if(event.data.currentTick === 1) {
+          if(data.currentTick === 1) {
             // 第一帧不画，只记录
-            this.targetPositionStatus = new Float32Array(event.data.nodes)
+            if(positions) {
+              this.targetPositionStatus = positions
+            }
           }else {
             // 第二帧开始画第一帧，同时启动补间
-            if(event.data.currentTick === 2) {
-              this.currentPositionStatus = this.targetPositionStatus
+            if(data.currentTick === 2 && this.targetPositionStatus) {
+              this.copyTargetPosition()
               this.startRender()
             }
 
-            this.targetPositionStatus = new Float32Array(event.data.nodes)
+            if(positions) {
+              this.targetPositionStatus = positions
+              this.applyDragPosition(this.targetPositionStatus)
+            }
             // 缓存当前 this.currentPositionStatus
-            if(this.currentPositionStatus) {
+            if(positions && this.currentPositionStatus) {
               let len = this.currentPositionStatus.length
               if(!this.cachePositionStatus) {
                 this.cachePositionStatus = new Float32Array(len)
@@ -507,40 +2309,153 @@ export class D3ForceGraph {
                 this.cachePositionStatus[i] = this.currentPositionStatus[i]
               }
             }
-            this.perfInfo.targetTick = event.data.currentTick
+            this.perfInfo.targetTick = data.currentTick
           }
 
           this.events.emit('tick', {
-            layoutProgress: this.perfInfo.layoutProgress
+            layoutProgress: this.perfInfo.layoutProgress,
+            alpha: this.perfInfo.alpha
           })
 
           break
         }
         case('end'): {
-          this.targetPositionStatus = new Float32Array(event.data.nodes)
+          let positions = this.isStaleMessage(data) ? null : this.readPositions(data)
+          if(positions) {
+            this.targetPositionStatus = positions
+          }
+          if(!this.currentPositionStatus) {
+            // 跳过布局时没有 tick，直接绘制最终位置
+            this.currentPositionStatus = new Float32Array(this.targetPositionStatus)
+            this.updatePosition(this.currentPositionStatus)
+            this.startRender()
+          }
 
           this.$container.addEventListener('mousemove', this.mouseMoveHandlerBinded, false)
           this.$container.addEventListener('mouseout', this.mouseOutHandlerBinded, false)
 
           // 布局结束后，如果鼠标不在图像区域，就停止渲染（节能）
+          // 期间重新开始布局（reheat、拖拽等）则跳过
           setTimeout(() => {
+            if(this.perfInfo.layoutState === 'running') {
+              return
+            }
             this.perfInfo.layouting = false
             if(this.config.showArrow) {
               this.renderArrow()
             }
+            this.refreshHighLight()
 
             this.events.emit('end')
 
             setTimeout(() => {
-              if(!this.mouseStatus.mouseOnChart) {
+              if(!this.mouseStatus.mouseOnChart && this.perfInfo.layoutState !== 'running') {
                 this.stopRender()
               }
             }, 2000)
           }, 2000)
           break
         }
+        case('state'): {
+          this.perfInfo.layoutState = data.state
+          this.perfInfo.alpha = data.alpha
+          // 暂停期间不再视为布局中，落到最新位置后如果图表空闲就停止渲染（节能），恢复时重新开始
+          if(data.state === 'paused') {
+            this.perfInfo.layouting = false
+            this.checkFinalStatus()
+            this.refreshHighLight()
+            if(!this.mouseStatus.mouseOnChart && !this.lockHighlightToken && !this.cameraAnimation) {
+              this.stopRender()
+              this.requestRender()
+            }
+          }else if(data.state === 'running') {
+            this.perfInfo.layouting = true
+            this.startRender()
+          }
+          this.events.emit('layoutStateChange', {
+            state: data.state,
+            alpha: data.alpha
+          })
+          break
+        }
+        case('analytics'): {
+          this.receiveAnalytics(data)
+          break
+        }
+      }
+    }
+
+    if(this.config.analytics) {
+      this.analyze().catch(e => {
+        console.log(e)
+      })
+    }
+  }
+
+  // 在 worker 中计算度、PageRank、介数中心性、连通分量与 Louvain 社区
+  // 结果加入 nodeStyle 的 context，完成后按 nodeStyle 重新计算样式
+  analyze(options: AnalyticsOptions = typeof this.config.analytics === 'object' ? this.config.analytics : {}): Promise<GraphAnalytics> {
+    let requestId = ++this.analyticsRequestId
+    let message = {
+      type: 'analyze',
+      requestId,
+      nodes: this.processedData.nodes.length,
+      linksBuffer: this.getLinkBuffer(this.processedData).buffer,
+      options
+    }
+    return new Promise(resolve => {
+      this.analyticsRequests[requestId] = {
+        ids: this.processedData.nodes.map(e => e.id),
+        version: this.analyticsVersion,
+        resolve
+      }
+      this.worker.postMessage(message, [message.linksBuffer])
+    })
+  }
+
+  getAnalytics(): GraphAnalytics {
+    return this.analytics
+  }
+
+  // 将 worker 返回的按下标排列的结果转换为按 id 索引
+  receiveAnalytics(data: WorkerAnalyticsMessage): void {
+    let request = this.analyticsRequests[data.requestId]
+    delete this.analyticsRequests[data.requestId]
+    if(!request) {
+      return
+    }
+    let inDegree = new Int32Array(data.inDegree)
+    let outDegree = new Int32Array(data.outDegree)
+    let toMap = (values: ArrayLike<number>) => {
+      let result: {
+        [key: string]: number
+      } = {}
+      request.ids.forEach((id, i) => {
+        result[id] = values[i]
+      })
+      return result
+    }
+    let analytics: GraphAnalytics = {
+      degree: toMap(inDegree.map((e, i) => e + outDegree[i])),
+      inDegree: toMap(inDegree),
+      outDegree: toMap(outDegree),
+      pagerank: toMap(new Float64Array(data.pagerank)),
+      betweenness: toMap(new Float64Array(data.betweenness)),
+      component: toMap(new Int32Array(data.component)),
+      community: toMap(new Int32Array(data.community)),
+      componentCount: data.componentCount,
+      communityCount: data.communityCount,
+      modularity: data.modularity
+    }
+    // 期间数据已变化时只返回结果，不用于样式
+    if(request.version === this.analyticsVersion) {
+      this.analytics = analytics
+      if(this.config.nodeStyle) {
+        this.restyle()
       }
+      this.events.emit('analytics', analytics)
     }
+    request.resolve(analytics)
   }
 
   installControls(): void {
@@ -563,11 +2478,125 @@ export class D3ForceGraph {
     if(this.rafId) {
       cancelAnimationFrame(this.rafId)
       this.rafId = null
+      this.updateHud(true)
+    }
+  }
+
+  // HUD 浮层：上方为统计信息，下方为出度最高的节点，点击节点时定位并高亮
+  createHud(): void {
+    if(!this.config.showHud) {
+      return
+    }
+    this.$hud = document.createElement('div')
+    this.$hud.className = 'd3-force-graph-hud'
+    this.$hud.innerHTML = '<div class="d3-force-graph-hud-stats"></div><table class="d3-force-graph-hud-hubs"></table>'
+    this.$hud.addEventListener('click', this.hudClickHandlerBinded)
+    this.$container.appendChild(this.$hud)
+    this.renderHudHubs()
+    this.updateHud(true)
+  }
+
+  // 刷新统计信息，force 为 false 时按 HUD_INTERVAL 节流
+  updateHud(force: boolean = false): void {
+    if(!this.$hud) {
+      return
+    }
+    let now = Date.now()
+    let interval = now - this.hudStatus.updateTime
+    if(!force && interval < HUD_INTERVAL) {
+      return
+    }
+    // 渲染循环空闲时帧率为 0
+    let fps = this.rafId ? Math.round(this.hudStatus.frames * 1000 / interval) : 0
+    this.hudStatus.frames = 0
+    this.hudStatus.updateTime = now
+
+    let rows = [
+      ['Nodes', this.perfInfo.nodeCounts],
+      ['Links', this.perfInfo.linkCounts],
+      ['Layout', this.perfInfo.layouting ? `${this.perfInfo.layoutProgress}%` : (this.perfInfo.layoutState || '-')],
+      ['FPS', fps]
+    ]
+    let $stats = this.$hud.querySelector('.d3-force-graph-hud-stats')
+    $stats.innerHTML = ''
+    rows.forEach(([label, value]) => {
+      let $row = document.createElement('div')
+      let $label = document.createElement('span')
+      $label.textContent = String(label)
+      $row.appendChild($label)
+      $row.appendChild(document.createTextNode(String(value)))
+      $stats.appendChild($row)
+    })
+  }
+
+  // 数据变化后重新生成节点列表
+  renderHudHubs(): void {
+    if(!this.$hud) {
+      return
+    }
+    let $hubs = this.$hud.querySelector('.d3-force-graph-hud-hubs')
+    $hubs.innerHTML = ''
+    if(!this.config.showStatTable) {
+      return
+    }
+    this.processedData.statTable.slice(0, this.config.hudHubCount).forEach(e => {
+      let info = this.processedData.nodeInfoMap[e.source]
+      let $row = document.createElement('tr')
+      let $name = document.createElement('td')
+      let $count = document.createElement('td')
+      $row.setAttribute('data-id', e.source)
+      $name.textContent = info.name || e.source
+      $count.textContent = String(e.count)
+      $row.appendChild($name)
+      $row.appendChild($count)
+      $hubs.appendChild($row)
+    })
+    this.updateHudActiveHub()
+  }
+
+  // 标记当前高亮的节点
+  updateHudActiveHub(): void {
+    if(!this.$hud) {
+      return
+    }
+    let active = this.getHudActiveHub()
+    Array.prototype.forEach.call(this.$hud.querySelectorAll('tr'), ($row: HTMLElement) => {
+      $row.classList.toggle('active', $row.getAttribute('data-id') === active)
+    })
+  }
+
+  getHudActiveHub(): string {
+    let highlightedNodes = this.highlightedNodes
+    return highlightedNodes && highlightedNodes.ids.length === 1 && highlightedNodes.options.links === 'incident' ? highlightedNodes.ids[0] : null
+  }
+
+  // 点击节点时定位并高亮，再次点击取消高亮
+  hudClickHandler(event: MouseEvent): void {
+    let $row = (event.target as HTMLElement).closest('tr')
+    let id = $row && $row.getAttribute('data-id')
+    if(!id || !this.processedData.nodeInfoMap[id]) {
+      return
+    }
+    if(this.getHudActiveHub() === id) {
+      this.clearHighlight()
+    }else {
+      this.focusNode(id)
+      this.highlightNodes([id], {
+        links: 'incident'
+      })
     }
   }
 
+  // HUD 上的鼠标事件不作用于图
+  isHudEvent(event: MouseEvent): boolean {
+    return !!this.$hud && !!event && this.$hud.contains(event.target as Node)
+  }
+
+  hudClickHandlerBinded = this.hudClickHandler.bind(this)
+
   render(): void {
     this.rafId = null
+    this.updateCameraAnimation()
     // 限制放大缩小距离，最近75，最远16000
     if(this.camera.position.z < this.config.zoomNear) {
       this.camera.position.set(this.camera.position.x, this.camera.position.y, this.config.zoomNear)
@@ -587,36 +2616,40 @@ export class D3ForceGraph {
       }
     }else {
       if(this.currentPositionStatus && this.currentPositionStatus[0] !== this.targetPositionStatus[0]) {
-        this.currentPositionStatus = this.targetPositionStatus
+        this.copyTargetPosition()
         this.updatePosition(this.currentPositionStatus)
       }
     }
     this.checkFinalStatus()
     this.updateHighLight()
+    this.updateLabels()
     if(!this.perfInfo.layouting && this.camera.position.z < 300) {
       // todo 智能卸载
       this.loadImage()
     }
     this.renderer.render(this.scene, this.camera)
     this.controls && this.controls.update()
+    this.hudStatus.frames++
+    this.updateHud()
     this.startRender()
   }
 
   checkFinalStatus() {
     if(!this.perfInfo.layouting && this.currentPositionStatus && (this.currentPositionStatus[0] !== this.targetPositionStatus[0])){
-      this.currentPositionStatus = this.targetPositionStatus
+      this.copyTargetPosition()
       this.updatePosition(this.currentPositionStatus)
     }
   }
 
   renderArrow(): void {
+    this.scene.remove(this.scene.getObjectByName('arrows'))
     this.arrows.geometry = new THREE.BufferGeometry()
     this.arrows.positions = new Float32Array(this.perfInfo.linkCounts * 3)
     this.arrows.rotates = new Float32Array(this.perfInfo.linkCounts)
 
     this.arrows.material = new THREE.ShaderMaterial({
       transparent: true,
-      uniforms: {
+      uniforms: Object.assign({
         texture: {
           type: 't',
           value: ARROW_TEXTURE
@@ -624,7 +2657,7 @@ export class D3ForceGraph {
         'u_compensation': {
           value: window.devicePixelRatio * this.config.height / BASE_HEIGHT
         }
-      },
+      }, this.focusUniforms),
       vertexShader: arrowsVS({
         arrowSize: this.config.arrowSize.toFixed(8)
       }),
@@ -637,9 +2670,10 @@ export class D3ForceGraph {
 
     this.processedData.links.forEach((e, i) => {
 
-      // 计算箭头的旋转方向与偏移位置
-      let vecX = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2] - this.currentPositionStatus[this.processedData.nodeInfoMap[e.source].index * 2]
-      let vecY = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2 + 1] - this.currentPositionStatus[this.processedData.nodeInfoMap[e.source].index * 2 + 1]
+      // 计算箭头的旋转方向与偏移位置，方向为曲线在终点处的切线
+      let curve = this.getLinkCurve(e, this.currentPositionStatus)
+      let vecX = curve[6] - curve[4]
+      let vecY = curve[7] - curve[5]
       vec.x = vecX
       vec.y = vecY
       let angle = v3.Vector3.getAngle(vec, up)
@@ -651,64 +2685,688 @@ export class D3ForceGraph {
       }
       this.arrows.rotates[i] = angle
 
-      this.arrows.positions[i * 3] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2] - offsetX
-      this.arrows.positions[i * 3 + 1] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2 + 1] - offsetY
-      this.arrows.positions[i * 3 + 2] = -0.0007
+      this.arrows.positions[i * 3] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2] - offsetX
+      this.arrows.positions[i * 3 + 1] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2 + 1] - offsetY
+      this.arrows.positions[i * 3 + 2] = -0.0007
+    })
+
+    this.arrows.geometry.addAttribute('position', new THREE.BufferAttribute(this.arrows.positions, 3))
+    this.arrows.geometry.addAttribute('rotate', new THREE.BufferAttribute(this.arrows.rotates, 1))
+    // 与连线共用专注状态
+    this.arrows.focused = new Float32Array(this.lines.focused)
+    this.arrows.visibles = new Float32Array(this.lines.visibles)
+    this.arrows.geometry.addAttribute('focused', new THREE.BufferAttribute(this.arrows.focused, 1))
+    this.arrows.geometry.addAttribute('visible', new THREE.BufferAttribute(this.arrows.visibles, 1))
+    this.arrows.geometry.computeBoundingSphere()
+    this.arrows.mesh = new THREE.Points(this.arrows.geometry, this.arrows.material)
+    this.arrows.mesh.name = 'arrows'
+    this.scene.add(this.arrows.mesh)
+  }
+
+  // 常驻标签：按重要程度依次放置，与已放置的标签重叠时跳过，相机或节点位置变化后重新计算
+  // 连线标签位于曲线中点，沿连线方向旋转，高亮节点及其连线的标签总是显示
+  updateLabels(): void {
+    if(!this.currentPositionStatus) {
+      return
+    }
+    if(!this.labelOrder) {
+      this.labelOrder = this.getLabelOrder()
+      this.linkLabels = this.processedData.links.filter(e => this.getLinkLabel(e))
+    }
+    if(!this.config.showLabels && !this.linkLabels.length) {
+      this.scene.remove(this.scene.getObjectByName('labels'))
+      return
+    }
+    let camera = this.camera.position
+    let key = this.perfInfo.layouting ? 'layouting' : `${camera.x},${camera.y},${camera.z},${this.highlighted}`
+    if(key === this.labelCacheKey) {
+      return
+    }
+    this.labelCacheKey = key
+    this.scene.remove(this.scene.getObjectByName('labels'))
+    // 布局期间不显示标签
+    if(this.perfInfo.layouting) {
+      return
+    }
+
+    if(!this.labelAtlas) {
+      this.labelAtlas = this.createGlyphAtlas()
+    }
+
+    let placed: Array<PlacedLabel> = []
+    let grid: {
+      [key: string]: Array<LabelRect>
+    } = {}
+    let screen = new THREE.Vector3()
+    let ahead = new THREE.Vector3()
+    let height = this.labelAtlas.lineHeight / this.labelAtlas.ratio
+    let isVisible = (point: THREE.Vector3) => Math.abs(point.x) <= this.config.width / 2 && Math.abs(point.y) <= this.config.height / 2
+    // 专注模式下被淡化的元素不显示标签
+    let focusing = this.focusUniforms.u_focus.value === 1
+
+    let placeNode = (id: string) => {
+      let info = this.processedData.nodeInfoMap[id]
+      let text = this.getLabel(id)
+      // 锚点位于节点下沿
+      let x = this.currentPositionStatus[info.index * 2]
+      let y = this.currentPositionStatus[info.index * 2 + 1] - this.config.nodeSize / 1125 * info.scale
+      if(!text || !this.nodes.visibles[info.index] || (focusing && !this.nodes.focused[info.index]) || !isVisible(this.projectToScreen(x, y, screen))) {
+        return
+      }
+      let width = this.measureLabel(text)
+      let rect = {
+        left: screen.x - width / 2,
+        right: screen.x + width / 2,
+        top: screen.y - 2,
+        bottom: screen.y - 2 - height
+      }
+      if(this.addLabelRect(grid, rect)) {
+        placed.push({
+          text,
+          x,
+          y,
+          width,
+          offsetY: -2 - height,
+          angle: 0
+        })
+      }
+    }
+
+    let placeLink = (link: D3Link, force: boolean) => {
+      let text = this.getLinkLabel(link)
+      let curve = this.getLinkCurve(link, this.currentPositionStatus)
+      let point = this.getCurvePoint(curve, 0.5)
+      let next = this.getCurvePoint(curve, 0.51)
+      let index = this.getAdjacency().linkIndex[link.id]
+      if(!text || !this.lines.visibles[index] || (focusing && !this.lines.focused[index]) || !isVisible(this.projectToScreen(point.x, point.y, screen))) {
+        return
+      }
+      // 按屏幕上的方向旋转，保持文字朝上
+      this.projectToScreen(next.x, next.y, ahead)
+      let angle = Math.atan2(ahead.y - screen.y, ahead.x - screen.x)
+      if(angle > Math.PI / 2) {
+        angle -= Math.PI
+      }else if(angle < -Math.PI / 2) {
+        angle += Math.PI
+      }
+      // 文字位于连线上方，碰撞检测使用旋转后的包围盒
+      let width = this.measureLabel(text)
+      let cos = Math.cos(angle)
+      let sin = Math.sin(angle)
+      let centerX = screen.x - sin * (2 + height / 2)
+      let centerY = screen.y + cos * (2 + height / 2)
+      let halfWidth = Math.abs(cos) * width / 2 + Math.abs(sin) * height / 2
+      let halfHeight = Math.abs(sin) * width / 2 + Math.abs(cos) * height / 2
+      let rect = {
+        left: centerX - halfWidth,
+        right: centerX + halfWidth,
+        top: centerY + halfHeight,
+        bottom: centerY - halfHeight
+      }
+      if(this.addLabelRect(grid, rect, force)) {
+        placed.push({
+          text,
+          x: point.x,
+          y: point.y,
+          width,
+          offsetY: 2,
+          angle
+        })
+      }
+    }
+
+    // 高亮节点及其连线优先放置，且不受 labelZoom、linkLabelZoom 限制
+    let highlightedLinks: Array<D3Link> = []
+    if(this.highlighted) {
+      if(this.config.showLabels) {
+        placeNode(this.highlighted)
+      }
+      highlightedLinks = this.linkLabels.filter(e => e.source === this.highlighted || e.target === this.highlighted)
+      highlightedLinks.forEach(e => placeLink(e, true))
+    }
+    if(this.config.showLabels && camera.z <= this.config.labelZoom) {
+      for(let i = 0; i < this.labelOrder.length && placed.length < LABEL_MAX_COUNT; i++) {
+        if(this.labelOrder[i] !== this.highlighted) {
+          placeNode(this.labelOrder[i])
+        }
+      }
+    }
+    if(camera.z <= this.config.linkLabelZoom) {
+      for(let i = 0; i < this.linkLabels.length && placed.length < LABEL_MAX_COUNT; i++) {
+        if(highlightedLinks.indexOf(this.linkLabels[i]) === -1) {
+          placeLink(this.linkLabels[i], false)
+        }
+      }
+    }
+
+    this.renderLabels(placed)
+  }
+
+  // 与已放置的标签不重叠（或 force 为 true）时加入网格，返回是否加入
+  addLabelRect(grid: {[key: string]: Array<LabelRect>}, rect: LabelRect, force: boolean = false): boolean {
+    let cells = []
+    for(let i = Math.floor(rect.left / LABEL_GRID_SIZE); i <= Math.floor(rect.right / LABEL_GRID_SIZE); i++) {
+      for(let j = Math.floor(rect.bottom / LABEL_GRID_SIZE); j <= Math.floor(rect.top / LABEL_GRID_SIZE); j++) {
+        let cell = grid[`${i},${j}`]
+        if(!force && cell && cell.some(e => e.left < rect.right && e.right > rect.left && e.bottom < rect.top && e.top > rect.bottom)) {
+          return false
+        }
+        cells.push(`${i},${j}`)
+      }
+    }
+    cells.forEach(e => {
+      grid[e] = grid[e] || []
+      grid[e].push(rect)
+    })
+    return true
+  }
+
+  // 每个字形实例化为一个四边形
+  renderLabels(placed: Array<PlacedLabel>, retry: boolean = true): void {
+    let atlas = this.labelAtlas
+    let resets = atlas.resets
+    let anchors: Array<number> = []
+    let offsets: Array<number> = []
+    let glyphs: Array<number> = []
+    let angles: Array<number> = []
+    let height = atlas.lineHeight / atlas.ratio
+
+    placed.forEach(label => {
+      let cursor = -label.width / 2
+      Array.from(label.text).forEach(char => {
+        let glyph = this.getGlyph(char)
+        anchors.push(label.x, label.y)
+        offsets.push(cursor - 1 / atlas.ratio, label.offsetY, glyph.width / atlas.ratio, height)
+        angles.push(label.angle)
+        glyphs.push(
+          glyph.x / LABEL_ATLAS_SIZE,
+          1 - (glyph.y + atlas.lineHeight) / LABEL_ATLAS_SIZE,
+          (glyph.x + glyph.width) / LABEL_ATLAS_SIZE,
+          1 - glyph.y / LABEL_ATLAS_SIZE
+        )
+        cursor += glyph.advance / atlas.ratio
+      })
+    })
+    // atlas 写满被清空时，之前取得的字形已失效，重新生成一次
+    if(atlas.resets !== resets && retry) {
+      this.renderLabels(placed, false)
+      return
+    }
+
+    if(!this.labels.material) {
+      this.labels.material = new THREE.ShaderMaterial({
+        transparent: true,
+        depthTest: false,
+        uniforms: {
+          texture: {
+            type: 't',
+            value: atlas.texture
+          },
+          'u_resolution': {
+            value: new THREE.Vector2(this.config.width, this.config.height)
+          },
+          'u_color': {
+            value: new THREE.Vector3(this.config.labelColor[0] / 255, this.config.labelColor[1] / 255, this.config.labelColor[2] / 255)
+          }
+        },
+        vertexShader: labelsVS(),
+        fragmentShader: labelsFS()
+      })
+    }
+    this.labels.geometry && this.labels.geometry.dispose()
+    let geometry = new THREE.InstancedBufferGeometry()
+    geometry.addAttribute('position', new THREE.BufferAttribute(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]), 3))
+    geometry.setIndex([0, 1, 2, 2, 1, 3])
+    this.labels.positions = new Float32Array(anchors)
+    geometry.addAttribute('anchor', new THREE.InstancedBufferAttribute(this.labels.positions, 2))
+    geometry.addAttribute('offset', new THREE.InstancedBufferAttribute(new Float32Array(offsets), 4))
+    geometry.addAttribute('glyph', new THREE.InstancedBufferAttribute(new Float32Array(glyphs), 4))
+    geometry.addAttribute('angle', new THREE.InstancedBufferAttribute(new Float32Array(angles), 1))
+    geometry.maxInstancedCount = anchors.length / 2
+    this.labels.geometry = geometry
+
+    this.labels.mesh = new THREE.Mesh(this.labels.geometry, this.labels.material)
+    this.labels.mesh.name = 'labels'
+    this.labels.mesh.position.z = 0.0002
+    this.labels.mesh.frustumCulled = false
+    this.labels.mesh.renderOrder = 1
+    this.scene.add(this.labels.mesh)
+  }
+
+  getLabel(id: string): string {
+    let data = this.processedData.nodeInfoMap[id].data
+    let text = this.config.label ? this.config.label(data) : (data.name || data.id)
+    return text === undefined || text === null ? '' : String(text)
+  }
+
+  getLinkLabel(link: D3Link): string {
+    let label = this.processedData.linkInfoMap[link.id].data.label
+    return label === undefined || label === null ? '' : String(label)
+  }
+
+  // 标签宽度（px）
+  measureLabel(text: string): number {
+    return Array.from(text).reduce((width, char) => width + this.getGlyph(char).advance, 0) / this.labelAtlas.ratio
+  }
+
+  // 重要程度为 scale * (1 + 度数)
+  getLabelOrder(): Array<string> {
+    let degree: {
+      [key: string]: number
+    } = {}
+    this.processedData.links.forEach(e => {
+      degree[e.source] = (degree[e.source] || 0) + 1
+      degree[e.target] = (degree[e.target] || 0) + 1
+    })
+    let importance = (id: string) => this.processedData.nodeInfoMap[id].scale * (1 + (degree[id] || 0))
+    return this.processedData.nodes.map(e => e.id).sort((a, b) => importance(b) - importance(a))
+  }
+
+  // 字形按需绘制到 atlas，按设备像素比绘制以保证清晰
+  createGlyphAtlas(): GlyphAtlas {
+    let ratio = window.devicePixelRatio
+    let canvas = document.createElement('canvas')
+    canvas.width = LABEL_ATLAS_SIZE
+    canvas.height = LABEL_ATLAS_SIZE
+    let context = canvas.getContext('2d')
+    context.font = `${this.config.labelSize * ratio}px ${this.config.labelFont}`
+    context.textBaseline = 'middle'
+    context.fillStyle = 'rgb(255,255,255)'
+    let texture = new THREE.Texture(canvas)
+    texture.minFilter = THREE.LinearFilter
+    texture.generateMipmaps = false
+    return {
+      canvas,
+      context,
+      texture,
+      glyphs: {},
+      x: 0,
+      y: 0,
+      lineHeight: Math.ceil(this.config.labelSize * ratio * 1.4),
+      ratio,
+      resets: 0
+    }
+  }
+
+  getGlyph(char: string): Glyph {
+    let atlas = this.labelAtlas
+    if(!atlas.glyphs[char]) {
+      let advance = atlas.context.measureText(char).width
+      let width = Math.ceil(advance) + 2
+      if(atlas.x + width > LABEL_ATLAS_SIZE) {
+        atlas.x = 0
+        atlas.y += atlas.lineHeight
+      }
+      if(atlas.y + atlas.lineHeight > LABEL_ATLAS_SIZE) {
+        // atlas 写满，清空后重新开始
+        atlas.context.clearRect(0, 0, LABEL_ATLAS_SIZE, LABEL_ATLAS_SIZE)
+        atlas.glyphs = {}
+        atlas.x = 0
+        atlas.y = 0
+        atlas.resets++
+      }
+      atlas.context.fillText(char, atlas.x + 1, atlas.y + atlas.lineHeight / 2)
+      atlas.glyphs[char] = {
+        x: atlas.x,
+        y: atlas.y,
+        width,
+        advance
+      }
+      atlas.x += width
+      atlas.texture.needsUpdate = true
+    }
+    return atlas.glyphs[char]
+  }
+
+  // 更新节点与线的位置
+  updatePosition(nodesPosition: Float32Array): void {
+    for(let i = 0; i < this.perfInfo.nodeCounts; i++) {
+      this.nodes.positions[i * 3] = nodesPosition[i * 2]
+      this.nodes.positions[i * 3 + 1] = nodesPosition[i * 2 + 1]
+    }
+    this.nodes.geometry.attributes.position = new THREE.BufferAttribute(this.nodes.positions, 3)
+    this.nodes.geometry.attributes.position.needsUpdate = true
+    this.nodes.geometry.computeBoundingSphere()
+    for(let i = 0; i < this.perfInfo.linkCounts; i++) {
+      this.lines.positions[i * 4] = nodesPosition[this.processedData.nodeInfoMap[this.processedData.links[i].source].index * 2]
+      this.lines.positions[i * 4 + 1] = nodesPosition[this.processedData.nodeInfoMap[this.processedData.links[i].source].index * 2 + 1]
+      this.lines.positions[i * 4 + 2] = nodesPosition[this.processedData.nodeInfoMap[this.processedData.links[i].target].index * 2]
+      this.lines.positions[i * 4 + 3] = nodesPosition[this.processedData.nodeInfoMap[this.processedData.links[i].target].index * 2 + 1]
+    }
+    (this.lines.geometry.getAttribute('endpoints') as THREE.BufferAttribute).needsUpdate = true
+    this.updateSelectionPosition(nodesPosition)
+    this.updateHulls(nodesPosition)
+    this.labelCacheKey = null
+  }
+
+  // 按当前位置重新生成分组包络，折叠的分组与隐藏的节点不参与
+  updateHulls(nodesPosition: Float32Array): void {
+    this.scene.remove(this.scene.getObjectByName('hulls'))
+    this.hulls.geometry && this.hulls.geometry.dispose()
+    this.hulls.geometry = null
+    if(!this.config.showHulls || !nodesPosition) {
+      return
+    }
+
+    // 在每个节点周围取点，包络与节点中心保持 hullPadding 的距离
+    let padding = this.config.hullPadding
+    let groups: {
+      [key: string]: Array<GraphPosition>
+    } = {}
+    this.processedData.nodes.forEach((e, i) => {
+      let group = this.processedData.nodeInfoMap[e.id].data.group
+      if(group === undefined || group === null || this.collapsedGroups[group] || !this.nodes.visibles[i]) {
+        return
+      }
+      groups[group] = groups[group] || []
+      for(let j = 0; j < HULL_SEGMENTS; j++) {
+        let angle = j / HULL_SEGMENTS * Math.PI * 2
+        groups[group].push({
+          x: nodesPosition[i * 2] + Math.cos(angle) * padding,
+          y: nodesPosition[i * 2 + 1] + Math.sin(angle) * padding
+        })
+      }
+    })
+
+    let positions: Array<number> = []
+    let colors: Array<number> = []
+    Object.keys(groups).forEach(group => {
+      let concave = this.config.hullType === 'concave'
+      let hull = this.getConvexHull(groups[group])
+      let triangles: Array<Array<number>> = []
+      if(concave) {
+        hull = this.getConcaveHull(groups[group], hull)
+        triangles = THREE.ShapeUtils.triangulateShape(hull.map(e => new THREE.Vector2(e.x, e.y)), [])
+      }else {
+        for(let i = 1; i < hull.length - 1; i++) {
+          triangles.push([0, i, i + 1])
+        }
+      }
+      let color = this.getGroupColor(group).map(c => c / 255)
+      triangles.forEach(triangle => {
+        triangle.forEach(index => {
+          positions.push(hull[index].x, hull[index].y, -0.002)
+          colors.push(color[0], color[1], color[2])
+        })
+      })
+    })
+
+    this.hulls.geometry = new THREE.BufferGeometry()
+    this.hulls.geometry.addAttribute('position', new THREE.BufferAttribute(new Float32Array(positions), 3))
+    this.hulls.geometry.addAttribute('color', new THREE.BufferAttribute(new Float32Array(colors), 3))
+    this.hulls.material = this.hulls.material || new THREE.ShaderMaterial({
+      transparent: true,
+      uniforms: {
+        'u_opacity': {
+          value: this.config.hullOpacity
+        }
+      },
+      vertexShader: hullsVS(),
+      fragmentShader: hullsFS()
+    })
+    this.hulls.mesh = new THREE.Mesh(this.hulls.geometry, this.hulls.material as THREE.ShaderMaterial)
+    this.hulls.mesh.name = 'hulls'
+    this.hulls.mesh.frustumCulled = false
+    this.scene.add(this.hulls.mesh)
+  }
+
+  // 凸包（Andrew 单调链），按逆时针顺序返回
+  getConvexHull(points: Array<GraphPosition>): Array<GraphPosition> {
+    let sorted = points.slice().sort((a, b) => a.x - b.x || a.y - b.y)
+    let cross = (o: GraphPosition, a: GraphPosition, b: GraphPosition) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+    let lower: Array<GraphPosition> = []
+    let upper: Array<GraphPosition> = []
+    sorted.forEach(p => {
+      while(lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+        lower.pop()
+      }
+      lower.push(p)
     })
+    for(let i = sorted.length - 1; i >= 0; i--) {
+      let p = sorted[i]
+      while(upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+        upper.pop()
+      }
+      upper.push(p)
+    }
+    lower.pop()
+    upper.pop()
+    return lower.concat(upper)
+  }
 
-    this.arrows.geometry.addAttribute('position', new THREE.BufferAttribute(this.arrows.positions, 3))
-    this.arrows.geometry.addAttribute('rotate', new THREE.BufferAttribute(this.arrows.rotates, 1))
-    this.arrows.geometry.computeBoundingSphere()
-    this.arrows.mesh = new THREE.Points(this.arrows.geometry, this.arrows.material)
-    this.arrows.mesh.name = 'arrows'
-    this.scene.add(this.arrows.mesh)
+  // 凹包：从凸包开始，把较长的边向离它最近的内部点收缩，直到边长与该点到端点的距离之比不超过 HULL_CONCAVITY
+  getConcaveHull(points: Array<GraphPosition>, convexHull: Array<GraphPosition>): Array<GraphPosition> {
+    let onHull = new Set(convexHull)
+    let inner = points.filter(e => !onHull.has(e))
+    let hull = convexHull.slice()
+    let distance = (a: GraphPosition, b: GraphPosition) => Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y))
+    let cross = (o: GraphPosition, a: GraphPosition, b: GraphPosition) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+    let intersects = (a: GraphPosition, b: GraphPosition, c: GraphPosition, d: GraphPosition) => {
+      return cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0
+    }
+    // 新的边 a-p、p-b 不能与其余的边相交
+    let isValid = (index: number, p: GraphPosition) => {
+      let a = hull[index]
+      let b = hull[(index + 1) % hull.length]
+      for(let i = 0; i < hull.length; i++) {
+        let c = hull[i]
+        let d = hull[(i + 1) % hull.length]
+        if(c === a || c === b || d === a || d === b) {
+          continue
+        }
+        if(intersects(a, p, c, d) || intersects(p, b, c, d)) {
+          return false
+        }
+      }
+      return true
+    }
+
+    let i = 0
+    while(i < hull.length && inner.length) {
+      let a = hull[i]
+      let b = hull[(i + 1) % hull.length]
+      let length = distance(a, b)
+      let nearest = -1
+      let nearestDistance = Infinity
+      if(length > this.config.hullPadding) {
+        inner.forEach((p, j) => {
+          let t = ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (length * length)
+          let d = this.getSegmentDistance(p.x, p.y, a.x, a.y, b.x, b.y)
+          if(t >= 0 && t <= 1 && d < nearestDistance) {
+            nearest = j
+            nearestDistance = d
+          }
+        })
+      }
+      let p = inner[nearest]
+      if(p && length / Math.min(distance(p, a), distance(p, b)) > HULL_CONCAVITY && isValid(i, p)) {
+        hull.splice(i + 1, 0, p)
+        inner.splice(nearest, 1)
+      }else {
+        i++
+      }
+    }
+    return hull
   }
 
-  // 更新节点与线的位置
-  updatePosition(nodesPosition: Float32Array): void {
-    for(let i = 0; i < this.perfInfo.nodeCounts; i++) {
-      this.nodes.positions[i * 3] = nodesPosition[i * 2]
-      this.nodes.positions[i * 3 + 1] = nodesPosition[i * 2 + 1]
+  // groupColors 中未指定的分组按首次出现的顺序使用 category10
+  getGroupColor(group: string): RGB {
+    let colors = this.config.groupColors || {}
+    if(colors[group]) {
+      return colors[group]
     }
-    this.nodes.geometry.attributes.position = new THREE.BufferAttribute(this.nodes.positions, 3)
-    this.nodes.geometry.attributes.position.needsUpdate = true
-    this.nodes.geometry.computeBoundingSphere()
-    for(let i = 0; i < this.perfInfo.linkCounts; i++) {
-      this.lines.positions[i * 6] = nodesPosition[this.processedData.nodeInfoMap[this.processedData.links[i].source].index * 2]
-      this.lines.positions[i * 6 + 1] = nodesPosition[this.processedData.nodeInfoMap[this.processedData.links[i].source].index * 2 + 1]
-      this.lines.positions[i * 6 + 3] = nodesPosition[this.processedData.nodeInfoMap[this.processedData.links[i].target].index * 2]
-      this.lines.positions[i * 6 + 4] = nodesPosition[this.processedData.nodeInfoMap[this.processedData.links[i].target].index * 2 + 1]
+    if(this.groupOrder[group] === undefined) {
+      this.groupOrder[group] = Object.keys(this.groupOrder).length
     }
-    this.lines.geometry.attributes.position = new THREE.BufferAttribute(this.lines.positions, 3)
-    this.lines.geometry.attributes.position.needsUpdate = true
-    this.lines.geometry.computeBoundingSphere()
+    return CATEGORY10[this.groupOrder[group] % CATEGORY10.length]
   }
 
   // 响应鼠标在图表上移动时的交互，指到某个节点上进行高亮
   updateHighLight(): void {
+    if(this.dragStatus && this.dragStatus.dragging) {
+      return
+    }
+    let id = this.pickNode(this.mouseStatus.mousePosition)
+    let link = (!id && this.config.linkPicking) ? this.pickHoveredLink() : null
+    let position
+    if(id !== this.hovered || link !== this.hoveredLink) {
+      position = this.getGraphPosition(this.mouseStatus.mousePosition)
+    }
+    if(id !== this.hovered) {
+      if(this.hovered && this.processedData.nodeInfoMap[this.hovered]) {
+        this.events.emit('nodeHoverOut', this.getNodeEvent(this.hovered, position, this.mouseStatus.event))
+      }
+      if(id) {
+        this.events.emit('nodeHover', this.getNodeEvent(id, position, this.mouseStatus.event))
+      }
+      this.hovered = id
+    }
+    if(link !== this.hoveredLink) {
+      if(this.hoveredLink) {
+        this.events.emit('linkHoverOut', this.getLinkEvent(this.hoveredLink, position, this.mouseStatus.event))
+      }
+      if(link) {
+        this.events.emit('linkHover', this.getLinkEvent(link, position, this.mouseStatus.event))
+      }
+      this.hoveredLink = link
+    }
+    // 锁定时保持当前高亮
+    if(this.lockHighlightToken) {
+      return
+    }
+    if(id) {
+      this.highlight(id)
+    }else if(link) {
+      this.highlightLink(link)
+    }else {
+      this.unhighlight()
+    }
+  }
+
+  // 悬停拾取连线需要遍历所有连线，仅在鼠标或相机移动后重新计算
+  pickHoveredLink(): D3Link {
+    if(this.perfInfo.layouting || !this.mouseStatus.mouseOnChart) {
+      return null
+    }
+    let mouse = this.mouseStatus.mousePosition
+    let position = this.camera.position
+    let key = `${mouse.x},${mouse.y},${position.x},${position.y},${position.z}`
+    if(!this.linkPickCache || this.linkPickCache.key !== key) {
+      this.linkPickCache = {
+        key,
+        link: this.pickLink(mouse)
+      }
+    }
+    return this.linkPickCache.link
+  }
+
+  // 拾取鼠标位置下的节点（含头像），返回节点 id
+  pickNode(mouse: THREE.Vector2): string {
     let normalMouse = new THREE.Vector2()
-    normalMouse.x = this.mouseStatus.mousePosition.x * 2 / this.config.width
-    normalMouse.y = this.mouseStatus.mousePosition.y * 2 / this.config.height
+    normalMouse.x = mouse.x * 2 / this.config.width
+    normalMouse.y = mouse.y * 2 / this.config.height
     let ray = new THREE.Raycaster()
     ray.setFromCamera(normalMouse, this.camera)
     ray.params.Points.threshold = 2
-    let intersects = ray.intersectObjects(this.scene.children).filter(e => e.object.type === 'Points' && !e.object.name.startsWith('hl'))
+    // 只拾取显示中的节点与头像
+    let intersects = ray.intersectObjects(this.scene.children).filter(e => {
+      return e.object.name === 'basePoints' ? this.nodes.visibles[e.index] === 1 : e.object.name.startsWith('ava-') && e.object.visible
+    })
     if(intersects.length > 0) {
       let target = intersects[0]
-      let id
-      if(target.object && target.object.name === 'basePoints') {
-        id = this.processedData.nodes[target.index].id
-      }else if(target.object && target.object.name.startsWith('ava-')) {
-        id = (target.object as any).nodeId
+      if(target.object.name === 'basePoints') {
+        return this.processedData.nodes[target.index].id
       }
-      if(id) {
-        this.highlight(id)
+      return (target.object as any).nodeId
+    }
+    return null
+  }
+
+  // 拾取鼠标位置下的连线：在屏幕空间中计算鼠标到线段的距离，曲线按 CURVE_SEGMENTS 分段
+  pickLink(mouse: THREE.Vector2, tolerance: number = this.config.linkPickTolerance): D3Link {
+    if(!this.currentPositionStatus) {
+      return null
+    }
+    let source = new THREE.Vector3()
+    let target = new THREE.Vector3()
+    let minDistance = tolerance
+    let result: D3Link = null
+
+    this.processedData.links.forEach((e, index) => {
+      if(!this.lines.visibles[index]) {
+        return
       }
-    }else {
-      if(!this.lockHighlightToken) {
-        this.unhighlight()
+      let curve = this.getLinkCurve(e, this.currentPositionStatus)
+      let segments = this.processedData.linkInfoMap[e.id].curvature === 0 ? 1 : CURVE_SEGMENTS
+      this.projectToScreen(curve[0], curve[1], source)
+      for(let i = 1; i <= segments; i++) {
+        let point = this.getCurvePoint(curve, i / segments)
+        this.projectToScreen(point.x, point.y, target)
+        let distance = this.getSegmentDistance(mouse.x, mouse.y, source.x, source.y, target.x, target.y)
+        if(distance <= minDistance) {
+          minDistance = distance
+          result = e
+        }
+        source.copy(target)
+      }
+    })
+    return result
+  }
+
+  // 图坐标投影到以画布中心为原点、y 轴向上的屏幕坐标（px）
+  projectToScreen(x: number, y: number, target: THREE.Vector3): THREE.Vector3 {
+    target.set(x, y, 0).project(this.camera)
+    target.x = target.x * this.config.width / 2
+    target.y = target.y * this.config.height / 2
+    return target
+  }
+
+  // 点 (px, py) 到线段 (ax, ay)-(bx, by) 的距离
+  getSegmentDistance(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+    let dx = bx - ax
+    let dy = by - ay
+    let lengthSquared = dx * dx + dy * dy
+    let t = lengthSquared ? ((px - ax) * dx + (py - ay) * dy) / lengthSquared : 0
+    t = Math.max(0, Math.min(1, t))
+    let x = ax + t * dx - px
+    let y = ay + t * dy - py
+    return Math.sqrt(x * x + y * y)
+  }
+
+  // 屏幕坐标反投影到 z = 0 平面，得到图坐标
+  getGraphPosition(mouse: THREE.Vector2): GraphPosition {
+    let normalMouse = new THREE.Vector2(mouse.x * 2 / this.config.width, mouse.y * 2 / this.config.height)
+    let ray = new THREE.Raycaster()
+    ray.setFromCamera(normalMouse, this.camera)
+    let point = new THREE.Vector3()
+    if(!ray.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 0, 1), 0), point)) {
+      return {
+        x: NaN,
+        y: NaN
       }
     }
+    return {
+      x: point.x,
+      y: point.y
+    }
+  }
+
+  getNodeEvent(id: string, position: GraphPosition, event: MouseEvent): GraphNodeEvent {
+    return {
+      node: this.processedData.nodeInfoMap[id].data,
+      x: position.x,
+      y: position.y,
+      event
+    }
+  }
+
+  getLinkEvent(link: D3Link, position: GraphPosition, event: MouseEvent): GraphLinkEvent {
+    return {
+      link: this.processedData.linkInfoMap[link.id].data,
+      x: position.x,
+      y: position.y,
+      event
+    }
   }
 
   loadImage(): void {
@@ -773,7 +3431,7 @@ export class D3ForceGraph {
             value: window.devicePixelRatio * this.config.height / BASE_HEIGHT
           },
           scale: {
-            value: info.scale || 1
+            value: info.scale
           }
         },
         vertexShader: imageVS({
@@ -791,6 +3449,7 @@ export class D3ForceGraph {
       info.imagePoint.mesh.name = `ava-${id}`
       ;(info.imagePoint.mesh as any).nodeId = id
     }
+    info.imagePoint.mesh.visible = this.isImageVisible(id)
     if(!this.scene.getObjectByName(`ava-${id}`)) {
       this.scene.add(info.imagePoint.mesh)
       this.config.debug && console.log('loadImage:', id)
@@ -798,14 +3457,17 @@ export class D3ForceGraph {
   }
   // 获取当前 viewport 下所以可视的节点
   getAllVisibleNodes(): Array<VisibleNode> {
-    let viewportRect = this.getViewPortRect()
+    return this.getNodesInRect(this.getViewPortRect(), this.targetPositionStatus)
+  }
+  // 获取图坐标下矩形范围内的节点
+  getNodesInRect(rect: ViewportRect, positions: Float32Array): Array<VisibleNode> {
     let result = []
     for(let i = 0, len = this.perfInfo.nodeCounts; i < len; i++) {
-      if(this.targetPositionStatus[i * 2] >= viewportRect.left && this.targetPositionStatus[i * 2] <= viewportRect.right && this.targetPositionStatus[i * 2 + 1] >= viewportRect.bottom && this.targetPositionStatus[i * 2 + 1] <= viewportRect.top) {
+      if(this.nodes.visibles[i] && positions[i * 2] >= rect.left && positions[i * 2] <= rect.right && positions[i * 2 + 1] >= rect.bottom && positions[i * 2 + 1] <= rect.top) {
         result.push({
           id: this.processedData.nodes[i].id,
-          x: this.targetPositionStatus[i * 2],
-          y: this.targetPositionStatus[i * 2 + 1]
+          x: positions[i * 2],
+          y: positions[i * 2 + 1]
         })
       }
     }
@@ -823,15 +3485,584 @@ export class D3ForceGraph {
     }
   }
 
-  highlight(id: string): void {
-    if(this.highlighted !== id) {
-      this.unhighlight()
-      this.addHighLight(id)
-      this.highlighted = id
+  getCamera(): CameraState {
+    return {
+      x: this.camera.position.x,
+      y: this.camera.position.y,
+      z: this.camera.position.z
+    }
+  }
+
+  // 移动相机，未传入的坐标保持不变
+  setCamera(state: Partial<CameraState>, options: CameraTransition = {}): void {
+    this.animateCamera(Object.assign(this.getCamera(), state), options.duration)
+  }
+
+  zoomTo(z: number, options: CameraTransition = {}): void {
+    this.setCamera({
+      z
+    }, options)
+  }
+
+  // 将节点移动到视野中心，zoom 为相机高度，默认保持当前高度
+  focusNode(id: string, options: FocusOptions = {}): void {
+    this.flushDataSync()
+    let positions = this.targetPositionStatus || this.currentPositionStatus
+    let info = this.processedData.nodeInfoMap[id]
+    if(!positions || !info) {
+      return
+    }
+    this.setCamera({
+      x: positions[info.index * 2],
+      y: positions[info.index * 2 + 1],
+      z: options.zoom === undefined ? this.camera.position.z : options.zoom
+    }, options)
+  }
+
+  // 调整相机使指定节点全部可见
+  fitToNodes(ids: Array<string>, options: FitOptions = {}): void {
+    this.flushDataSync()
+    let positions = this.targetPositionStatus || this.currentPositionStatus
+    if(!positions) {
+      return
+    }
+    let left = Infinity
+    let right = -Infinity
+    let top = -Infinity
+    let bottom = Infinity
+    ids.forEach(id => {
+      let info = this.processedData.nodeInfoMap[id]
+      if(info) {
+        let x = positions[info.index * 2]
+        let y = positions[info.index * 2 + 1]
+        left = Math.min(left, x)
+        right = Math.max(right, x)
+        bottom = Math.min(bottom, y)
+        top = Math.max(top, y)
+      }
+    })
+    if(left === Infinity) {
+      return
+    }
+
+    let padding = options.padding === undefined ? 0.1 : options.padding
+    let tan = Math.tan(Math.PI / 180 * this.camera.fov / 2)
+    let halfWidth = Math.max((right - left) / 2, 1) * (1 + padding)
+    let halfHeight = Math.max((top - bottom) / 2, 1) * (1 + padding)
+    this.setCamera({
+      x: (left + right) / 2,
+      y: (top + bottom) / 2,
+      z: Math.max(halfHeight / tan, halfWidth / (tan * this.camera.aspect))
+    }, options)
+  }
+
+  fitToView(options: FitOptions = {}): void {
+    this.fitToNodes(this.processedData.nodes.map(e => e.id), options)
+  }
+
+  // 相机缓动到目标位置，高度限制在 zoomNear 与 zoomFar 之间
+  animateCamera(to: CameraState, duration: number = CAMERA_DURATION): void {
+    to.z = Math.min(Math.max(to.z, this.config.zoomNear), this.config.zoomFar)
+    this.cameraAnimation = {
+      from: this.getCamera(),
+      to,
+      startTime: Date.now(),
+      duration
+    }
+    // 渲染可能已因空闲停止
+    this.startRender()
+  }
+
+  updateCameraAnimation(): void {
+    if(!this.cameraAnimation) {
+      return
+    }
+    let from = this.cameraAnimation.from
+    let to = this.cameraAnimation.to
+    let duration = this.cameraAnimation.duration
+    let t = duration > 0 ? Math.min((Date.now() - this.cameraAnimation.startTime) / duration, 1) : 1
+    // easeInOutCubic
+    let k = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+    let x = from.x + (to.x - from.x) * k
+    let y = from.y + (to.y - from.y) * k
+    this.camera.position.set(x, y, from.z + (to.z - from.z) * k)
+    this.controls.target.set(x, y, 0)
+    this.controls.update()
+
+    if(t === 1) {
+      this.cameraAnimation = null
+      // 动画结束后若图表空闲，恢复节能
+      setTimeout(() => {
+        if(!this.mouseStatus.mouseOnChart && !this.perfInfo.layouting && !this.lockHighlightToken && !this.cameraAnimation) {
+          this.stopRender()
+        }
+      }, 0)
+    }
+  }
+
+  highlight(id: string): void {
+    if(this.highlighted !== id) {
+      this.unhighlight()
+      this.addHighLight(id)
+      this.highlighted = id
+    }
+  }
+
+  // 按 id 高亮连线，未提供 id 时高亮 source 与 target 之间的第一条连线
+  highlightLink(link: D3Link): void {
+    let id = this.findLinkIds(link)[0]
+    if(id && this.highlightedLink !== id) {
+      this.unhighlight()
+      this.addLinkHighLight(this.processedData.links.find(e => e.id === id))
+      this.highlightedLink = id
+    }
+  }
+
+  // 高亮任意一组节点（搜索结果、路径、社区等），默认锁定
+  highlightNodes(ids: Array<string>, options: HighlightOptions = {}): void {
+    this.flushDataSync()
+    let idMap: {
+      [key: string]: boolean
+    } = {}
+    ids = ids.filter(id => this.processedData.nodeInfoMap[id] && this.isNodeVisible(id))
+    ids.forEach(id => {
+      idMap[id] = true
+    })
+
+    if(!ids.length || !this.currentPositionStatus) {
+      // 没有可高亮的节点时也解除之前的锁定，恢复悬停高亮
+      this.clearHighlight()
+      this.updateHudActiveHub()
+      return
+    }
+    this.unhighlight()
+
+    let mode = options.links || 'induced'
+    let links = mode === 'none' ? [] : this.processedData.links.filter(e => {
+      return (mode === 'incident' ? (idMap[e.source] || idMap[e.target]) : (idMap[e.source] && idMap[e.target])) && this.isLinkVisible(e)
+    })
+    let targetNodes = ids.slice()
+    links.forEach(e => {
+      [e.source, e.target].forEach(id => {
+        if(!idMap[id]) {
+          idMap[id] = true
+          targetNodes.push(id)
+        }
+      })
+    })
+
+    this.showHighLight(targetNodes, links)
+    this.highlightedNodes = {
+      ids,
+      options
+    }
+    this.lockHighlightToken = options.lock !== false
+    if(options.fit) {
+      this.fitToNodes(ids)
+    }
+    this.updateHudActiveHub()
+    this.requestRender()
+  }
+
+  // 高亮一条或多条路径上的节点、连线与箭头，默认锁定，options.links 不生效
+  // 可直接传入 findPath 的结果，不连通时的 null 会被忽略
+  highlightPath(paths: GraphPath | Array<GraphPath> | null, options: HighlightOptions = {}): void {
+    this.flushDataSync()
+    let list = (Array.isArray(paths) ? paths : [paths]).filter(e => !!e)
+    let ids: Array<string> = []
+    let links: Array<D3Link> = []
+    let visited: {
+      [key: string]: boolean
+    } = {}
+    list.forEach(path => {
+      path.nodes.forEach(id => {
+        if(this.processedData.nodeInfoMap[id] && this.isNodeVisible(id) && !visited[id]) {
+          visited[id] = true
+          ids.push(id)
+        }
+      })
+      path.links.forEach(e => {
+        if(this.processedData.linkInfoMap[e.id] && this.isLinkVisible(e) && !visited[`link-${e.id}`]) {
+          visited[`link-${e.id}`] = true
+          links.push(e)
+        }
+      })
+    })
+
+    if(!ids.length || !this.currentPositionStatus) {
+      // 没有可高亮的节点时也解除之前的锁定，恢复悬停高亮
+      this.clearHighlight()
+      return
+    }
+    this.unhighlight()
+    this.showHighLight(ids, links)
+    this.highlightedPaths = {
+      paths: list,
+      options
+    }
+    this.lockHighlightToken = options.lock !== false
+    if(options.fit) {
+      this.fitToNodes(ids)
+    }
+    this.requestRender()
+  }
+
+  // 两节点间的一条最短路径，不连通时返回 null
+  findPath(sourceId: string, targetId: string, options: PathOptions = {}): GraphPath {
+    this.flushDataSync()
+    let result = this.searchPaths(sourceId, targetId, options)
+    if(!result) {
+      return null
+    }
+    let path: GraphPath = {
+      nodes: [targetId],
+      links: [],
+      distance: result.distance[targetId]
+    }
+    for(let id = targetId; id !== sourceId;) {
+      let link = result.prev[id][0]
+      id = link.source === id ? link.target : link.source
+      path.nodes.unshift(id)
+      path.links.unshift(link)
+    }
+    return path
+  }
+
+  // 两节点间的所有最短路径，最多返回 maxPaths 条
+  findAllPaths(sourceId: string, targetId: string, options: AllPathsOptions = {}): Array<GraphPath> {
+    this.flushDataSync()
+    let result = this.searchPaths(sourceId, targetId, options)
+    if(!result) {
+      return []
+    }
+    let maxPaths = pick(options.maxPaths, MAX_PATHS)
+    let paths: Array<GraphPath> = []
+    let nodes = [targetId]
+    let links: Array<D3Link> = []
+    let onPath: {
+      [key: string]: boolean
+    } = {
+      [targetId]: true
+    }
+    // 从终点沿前驱连线回溯，权重为 0 的环不重复经过
+    let walk = (id: string) => {
+      if(id === sourceId) {
+        paths.push({
+          nodes: nodes.slice().reverse(),
+          links: links.slice().reverse(),
+          distance: result.distance[targetId]
+        })
+        return
+      }
+      result.prev[id].forEach(link => {
+        let next = link.source === id ? link.target : link.source
+        if(paths.length >= maxPaths || onPath[next]) {
+          return
+        }
+        onPath[next] = true
+        nodes.push(next)
+        links.push(link)
+        walk(next)
+        onPath[next] = false
+        nodes.pop()
+        links.pop()
+      })
+    }
+    walk(targetId)
+    return paths
+  }
+
+  // 无权重时按层遍历（BFS），有权重时使用 Dijkstra，到达终点所在距离后停止
+  searchPaths(sourceId: string, targetId: string, options: PathOptions): PathSearchResult {
+    if(!this.processedData.nodeInfoMap[sourceId] || !this.processedData.nodeInfoMap[targetId]) {
+      return null
+    }
+    let adjacency = this.getAdjacency()
+    let weight = options.weight
+    let getWeight = typeof weight === 'function' ? weight : typeof weight === 'string' ? (link: GraphLink) => Number(link[weight as string]) : null
+    let result: PathSearchResult = {
+      distance: {
+        [sourceId]: 0
+      },
+      prev: {
+        [sourceId]: []
+      }
+    }
+    let distance = result.distance
+    let getLinks = (id: string) => options.directed ? adjacency.out[id] : adjacency.out[id].concat(adjacency.in[id])
+    // 更短时替换前驱，同样短时追加前驱，返回是否变短
+    let relax = (link: D3Link, id: string, value: number): boolean => {
+      if(distance[id] === undefined || value < distance[id] - PATH_EPSILON) {
+        distance[id] = value
+        result.prev[id] = [link]
+        return true
+      }
+      if(Math.abs(value - distance[id]) <= PATH_EPSILON) {
+        result.prev[id].push(link)
+      }
+      return false
+    }
+
+    if(!getWeight) {
+      let queue = [sourceId]
+      for(let i = 0; i < queue.length; i++) {
+        let id = queue[i]
+        if(distance[targetId] !== undefined && distance[id] >= distance[targetId]) {
+          break
+        }
+        getLinks(id).forEach(e => {
+          let next = e.source === id ? e.target : e.source
+          if(next !== id && relax(e, next, distance[id] + 1)) {
+            queue.push(next)
+          }
+        })
+      }
+    }else {
+      // 二叉堆，元素为 [距离, 节点 id]
+      let heap: Array<[number, string]> = [[0, sourceId]]
+      let push = (item: [number, string]) => {
+        let i = heap.push(item) - 1
+        while(i > 0 && heap[(i - 1) >> 1][0] > heap[i][0]) {
+          [heap[i], heap[(i - 1) >> 1]] = [heap[(i - 1) >> 1], heap[i]]
+          i = (i - 1) >> 1
+        }
+      }
+      let pop = (): [number, string] => {
+        let top = heap[0]
+        let last = heap.pop()
+        if(heap.length) {
+          heap[0] = last
+          for(let i = 0; ;) {
+            let left = i * 2 + 1
+            let right = i * 2 + 2
+            let min = i
+            if(left < heap.length && heap[left][0] < heap[min][0]) {
+              min = left
+            }
+            if(right < heap.length && heap[right][0] < heap[min][0]) {
+              min = right
+            }
+            if(min === i) {
+              break
+            }
+            [heap[i], heap[min]] = [heap[min], heap[i]]
+            i = min
+          }
+        }
+        return top
+      }
+
+      while(heap.length) {
+        let [value, id] = pop()
+        // 已有更短距离的过期元素
+        if(value > distance[id]) {
+          continue
+        }
+        if(distance[targetId] !== undefined && value > distance[targetId] + PATH_EPSILON) {
+          break
+        }
+        getLinks(id).forEach(e => {
+          let next = e.source === id ? e.target : e.source
+          let w = getWeight(this.processedData.linkInfoMap[e.id].data)
+          // 负数与无效权重的连线不可通过
+          if(next === id || !(w >= 0) || !isFinite(w)) {
+            return
+          }
+          if(relax(e, next, value + w)) {
+            push([value + w, next])
+          }
+        })
+      }
+    }
+    return distance[targetId] === undefined ? null : result
+  }
+
+  // 清除高亮并解除锁定
+  clearHighlight(): void {
+    this.lockHighlightToken = false
+    this.unhighlight()
+    this.requestRender()
+  }
+
+  // 按函数或文本（匹配 id 与 name，不区分大小写）查找节点
+  findNodes(query: string | ((node: GraphNode) => boolean)): Array<GraphNode> {
+    let predicate = typeof query === 'function' ? query : (node: GraphNode) => {
+      let text = query.toLowerCase()
+      return node.id.toLowerCase().indexOf(text) !== -1 || (!!node.name && node.name.toLowerCase().indexOf(text) !== -1)
+    }
+    return this.processedData.nodes.map(e => this.processedData.nodeInfoMap[e.id].data).filter(e => predicate(e))
+  }
+
+  // 选中节点，additive 为 false 时替换当前选择
+  select(ids: Array<string>, additive: boolean = true): void {
+    let selected = additive ? Object.assign({}, this.selected) : {}
+    ids.forEach(id => {
+      if(this.processedData.nodeInfoMap[id]) {
+        selected[id] = true
+      }
+    })
+    this.setSelection(selected)
+  }
+
+  deselect(ids: Array<string>): void {
+    let selected = Object.assign({}, this.selected)
+    ids.forEach(id => {
+      delete selected[id]
+    })
+    this.setSelection(selected)
+  }
+
+  // 切换节点的选中状态
+  toggle(ids: Array<string>): void {
+    let selected = Object.assign({}, this.selected)
+    ids.forEach(id => {
+      if(selected[id]) {
+        delete selected[id]
+      }else if(this.processedData.nodeInfoMap[id]) {
+        selected[id] = true
+      }
+    })
+    this.setSelection(selected)
+  }
+
+  clearSelection(): void {
+    this.setSelection({})
+  }
+
+  getSelected(): Array<GraphNode> {
+    return this.getSelectedIds().map(id => this.processedData.nodeInfoMap[id].data)
+  }
+
+  getSelectedIds(): Array<string> {
+    return Object.keys(this.selected).filter(id => this.processedData.nodeInfoMap[id])
+  }
+
+  // 选中层只绘制显示中的节点
+  getSelectionLayerIds(): Array<string> {
+    return this.getSelectedIds().filter(id => this.isNodeVisible(id))
+  }
+
+  // 选择发生变化时更新选中层并触发 selectionchange
+  setSelection(selected: {[key: string]: boolean}): void {
+    this.flushDataSync()
+    let prevIds = Object.keys(this.selected)
+    let ids = Object.keys(selected)
+    if(ids.length === prevIds.length && prevIds.every(id => selected[id])) {
+      return
+    }
+    this.selected = selected
+    this.renderSelection()
+    this.requestRender()
+    let event: GraphSelectionEvent = {
+      nodes: this.getSelected()
+    }
+    this.events.emit('selectionchange', event)
+  }
+
+  // 生成选中层，在选中节点外侧描边
+  renderSelection(): void {
+    this.scene.remove(this.scene.getObjectByName('selection'))
+    let ids = this.getSelectionLayerIds()
+    if(!ids.length || !this.currentPositionStatus) {
+      return
+    }
+    this.selection.geometry = new THREE.BufferGeometry()
+    this.selection.positions = new Float32Array(ids.length * 3)
+    this.selection.scale = new Float32Array(ids.length)
+    this.selection.shapes = new Float32Array(ids.length)
+    this.selection.material = new THREE.ShaderMaterial({
+      transparent: true,
+      uniforms: {
+        'u_compensation': {
+          value: window.devicePixelRatio * this.config.height / BASE_HEIGHT
+        },
+        'u_color': {
+          value: new THREE.Vector3(this.config.selectionColor[0] / 255, this.config.selectionColor[1] / 255, this.config.selectionColor[2] / 255)
+        }
+      },
+      vertexShader: selectionVS({
+        nodeSize: (this.config.nodeSize * 1.4).toFixed(8)
+      }),
+      fragmentShader: selectionFS()
+    })
+    this.selection.material.extensions.derivatives = true
+
+    ids.forEach((id, i) => {
+      let info = this.processedData.nodeInfoMap[id]
+      this.selection.scale[i] = info.scale
+      this.selection.shapes[i] = info.shape
+    })
+
+    this.selection.geometry.addAttribute('position', new THREE.BufferAttribute(this.selection.positions, 3))
+    this.selection.geometry.addAttribute('scale', new THREE.BufferAttribute(this.selection.scale, 1))
+    this.selection.geometry.addAttribute('shape', new THREE.BufferAttribute(this.selection.shapes, 1))
+
+    this.selection.mesh = new THREE.Points(this.selection.geometry, this.selection.material)
+    this.selection.mesh.name = 'selection'
+    this.selection.mesh.frustumCulled = false
+    this.scene.add(this.selection.mesh)
+    this.updateSelectionPosition(this.currentPositionStatus)
+  }
+
+  updateSelectionPosition(nodesPosition: Float32Array): void {
+    if(!this.scene.getObjectByName('selection')) {
+      // 布局开始前选中的节点，拿到位置后再生成选中层
+      if(this.getSelectionLayerIds().length && this.currentPositionStatus) {
+        this.renderSelection()
+      }
+      return
+    }
+    this.getSelectionLayerIds().forEach((id, i) => {
+      let index = this.processedData.nodeInfoMap[id].index
+      this.selection.positions[i * 3] = nodesPosition[index * 2]
+      this.selection.positions[i * 3 + 1] = nodesPosition[index * 2 + 1]
+      this.selection.positions[i * 3 + 2] = 0.00015
+    })
+    ;(this.selection.geometry.getAttribute('position') as THREE.BufferAttribute).needsUpdate = true
+  }
+
+  // 渲染循环空闲时单独绘制一帧
+  requestRender(): void {
+    if(!this.rafId) {
+      this.updateLabels()
+      this.renderer.render(this.scene, this.camera)
+    }
+  }
+
+  // 位置变化后重新生成当前高亮
+  refreshHighLight(): void {
+    let id = this.highlighted
+    let link = this.highlightedLink && this.processedData.links.find(e => e.id === this.highlightedLink)
+    let highlightedNodes = this.highlightedNodes
+    let highlightedPaths = this.highlightedPaths
+    this.unhighlight()
+    if(highlightedNodes) {
+      this.highlightNodes(highlightedNodes.ids, Object.assign({}, highlightedNodes.options, {
+        fit: false
+      }))
+    }else if(highlightedPaths) {
+      this.highlightPath(highlightedPaths.paths, Object.assign({}, highlightedPaths.options, {
+        fit: false
+      }))
+    }else if(id && this.processedData.nodeInfoMap[id]) {
+      this.highlight(id)
+    }else if(link) {
+      this.highlightLink(link)
     }
   }
 
   unhighlight(): void {
+    this.removeHighLightMesh()
+    this.highlighted = null
+    this.highlightedLink = null
+    this.highlightedNodes = null
+    this.highlightedPaths = null
+    this.$container.classList.remove('hl')
+    this.updateHudActiveHub()
+  }
+
+  removeHighLightMesh(): void {
+    this.clearFocus()
     let node = this.scene.getObjectByName('hlNodes')
     let line = this.scene.getObjectByName('hlLines')
     let text = this.scene.getObjectByName('hlText')
@@ -842,29 +4073,270 @@ export class D3ForceGraph {
       let arrow = this.scene.getObjectByName('hlArrows')
       this.scene.remove(arrow)
     }
-    this.highlighted = null
-    this.$container.classList.remove('hl')
   }
 
-  // 根据 id 高亮节点
+  // 根据 id 高亮节点及其 highlightDepth 层以内的邻居
   addHighLight(sourceId: string): void {
-    let sourceNode = this.processedData.nodes.find(e => e.id === sourceId)
-    let links = this.processedData.links.filter(e => (e.source === sourceId || e.target === sourceId))
-    let targetNodes = links.map(e => {
-      return e.target === sourceNode.id ? e.source : e.target
+    let neighborhood = this.getNeighborhood(sourceId)
+    this.showHighLight(neighborhood.nodes, neighborhood.links)
+    this.$container.classList.add('hl')
+
+    // 开启常驻标签时，高亮节点的标签由 updateLabels 优先放置
+    if(this.config.showLabels) {
+      return
+    }
+    let canvas1 = document.createElement('canvas')
+    let context1 = canvas1.getContext('2d')
+    canvas1.width = 512
+    canvas1.height = 64
+    context1.clearRect(0, 0, canvas1.width, canvas1.height)
+    context1.font = 'Bold 24px Arial'
+    context1.textAlign = 'center'
+    context1.fillStyle = 'rgb(255,255,255)'
+    let text = sourceId.startsWith('null') ? 'null' : (this.processedData.nodeInfoMap[sourceId].name || sourceId)
+    context1.fillText(text, canvas1.width / 2, 50)
+    let fontTexture = new THREE.Texture(canvas1)
+    fontTexture.needsUpdate = true
+    this.hlText.material = new THREE.MeshBasicMaterial({
+      map: fontTexture,
+      side: THREE.DoubleSide,
+      alphaTest: 0.5
+    })
+    this.hlText.material.transparent = true
+    this.hlText.mesh = new THREE.Mesh(
+        new THREE.PlaneGeometry(canvas1.width, canvas1.height),
+        this.hlText.material as THREE.MeshBasicMaterial
+    )
+    this.hlText.mesh.scale.set(0.12, 0.12, 0.12)
+    let fontMeshPosition = [this.currentPositionStatus[this.processedData.nodeInfoMap[sourceId].index * 2], this.currentPositionStatus[this.processedData.nodeInfoMap[sourceId].index * 2 + 1] - 4, 0.02]
+    this.hlText.mesh.position.set(fontMeshPosition[0], fontMeshPosition[1], 0)
+    this.hlText.mesh.name = 'hlText'
+    this.scene.add(this.hlText.mesh)
+  }
+
+  // 高亮一条连线及其两端节点
+  addLinkHighLight(link: D3Link): void {
+    this.showHighLight([link.source, link.target], [link])
+    this.$container.classList.add('hl')
+  }
+
+  // 按条件隐藏节点与连线，不重建数据，不传参数时显示全部
+  setFilter(filter: GraphFilter = {}): void {
+    this.flushDataSync()
+    let excluded = this.filter.excludeFromLayout
+    this.filter = filter
+    this.applyFilter()
+    if(excluded || filter.excludeFromLayout) {
+      this.prepareRelayout()
+      this.postFilter(REHEAT_ALPHA)
+    }
+    this.refreshHighLight()
+    this.renderSelection()
+    this.updateHulls(this.currentPositionStatus)
+    this.linkPickCache = null
+    this.requestRender()
+
+    let event: GraphFilterEvent = {
+      filter,
+      visibleNodeCount: this.nodes.visibles.reduce((sum, e) => sum + e, 0),
+      visibleLinkCount: this.lines.visibles.reduce((sum, e) => sum + e, 0)
+    }
+    this.events.emit('filterchange', event)
+  }
+
+  // 按当前条件计算节点、连线与箭头的 visible attribute
+  applyFilter(): void {
+    let filter = this.filter
+    this.processedData.nodes.forEach((e, i) => {
+      this.nodes.visibles[i] = !filter.node || filter.node(this.processedData.nodeInfoMap[e.id].data) ? 1 : 0
+    })
+    this.processedData.links.forEach((e, i) => {
+      let visible = this.isNodeVisible(e.source) && this.isNodeVisible(e.target) && (!filter.link || filter.link(this.processedData.linkInfoMap[e.id].data))
+      this.lines.visibles[i] = visible ? 1 : 0
+    })
+    if(this.arrows.visibles && this.arrows.visibles.length === this.lines.visibles.length) {
+      this.arrows.visibles.set(this.lines.visibles)
+    }
+    this.updateImageVisibility()
+    this.updateAttributes('visible')
+  }
+
+  // 通知 worker 隐藏的节点与连线不参与布局，alpha 为 null 时不重新加热
+  postFilter(alpha: number): void {
+    let exclude = this.filter.excludeFromLayout
+    let message = {
+      type: 'filter',
+      hiddenNodes: this.nodes.visibles.map(e => exclude && !e ? 1 : 0).buffer,
+      hiddenLinks: this.lines.visibles.map(e => exclude && !e ? 1 : 0).buffer,
+      alpha
+    }
+    this.worker.postMessage(message, [message.hiddenNodes, message.hiddenLinks])
+  }
+
+  isNodeVisible(id: string): boolean {
+    this.flushDataSync()
+    return this.nodes.visibles[this.processedData.nodeInfoMap[id].index] === 1
+  }
+
+  isLinkVisible(link: D3Link): boolean {
+    this.flushDataSync()
+    return this.lines.visibles[this.getAdjacency().linkIndex[link.id]] === 1
+  }
+
+  // 专注模式下淡化其余元素，否则叠加高亮层
+  showHighLight(targetNodes: Array<string>, links: Array<D3Link>): void {
+    if(this.config.focusMode) {
+      this.setFocus(targetNodes, links)
+    }else {
+      this.renderHighLight(targetNodes, links)
+    }
+  }
+
+  // 按邻接表逐层扩展，返回 depth 层以内的节点与经过的连线
+  getNeighborhood(id: string, options: NeighborhoodOptions = {}): Neighborhood {
+    this.flushDataSync()
+    let depth = pick(options.depth, this.config.highlightDepth)
+    let direction = options.direction || this.config.highlightDirection
+    let adjacency = this.getAdjacency()
+    let result: Neighborhood = {
+      nodes: [],
+      links: []
+    }
+    if(!this.processedData.nodeInfoMap[id] || !this.isNodeVisible(id)) {
+      return result
+    }
+    result.nodes.push(id)
+    let visited: {
+      [key: string]: boolean
+    } = {
+      [id]: true
+    }
+    let visitedLinks: {
+      [key: string]: boolean
+    } = {}
+    let frontier = [id]
+    for(let k = 0; k < depth && frontier.length; k++) {
+      let next: Array<string> = []
+      frontier.forEach(source => {
+        let links = direction === 'in' ? adjacency.in[source] : direction === 'out' ? adjacency.out[source] : adjacency.in[source].concat(adjacency.out[source])
+        links.forEach(e => {
+          if(visitedLinks[e.id] || !this.isLinkVisible(e)) {
+            return
+          }
+          visitedLinks[e.id] = true
+          result.links.push(e)
+          let target = e.source === source ? e.target : e.source
+          if(!visited[target]) {
+            visited[target] = true
+            result.nodes.push(target)
+            next.push(target)
+          }
+        })
+      })
+      frontier = next
+    }
+    return result
+  }
+
+  getAdjacency(): Adjacency {
+    if(!this.adjacency) {
+      let adjacency: Adjacency = {
+        in: {},
+        out: {},
+        linkIndex: {}
+      }
+      this.processedData.nodes.forEach(e => {
+        adjacency.in[e.id] = []
+        adjacency.out[e.id] = []
+      })
+      this.processedData.links.forEach((e, i) => {
+        adjacency.out[e.source].push(e)
+        adjacency.in[e.target].push(e)
+        adjacency.linkIndex[e.id] = i
+      })
+      this.adjacency = adjacency
+    }
+    return this.adjacency
+  }
+
+  // 修改高亮的邻居层数、方向与专注模式，并重新生成当前高亮
+  setHighlightOptions(options: NeighborhoodOptions & {focus?: boolean}): void {
+    this.flushDataSync()
+    this.config.highlightDepth = pick(options.depth, this.config.highlightDepth)
+    this.config.highlightDirection = options.direction || this.config.highlightDirection
+    this.config.focusMode = pick(options.focus, this.config.focusMode)
+    this.refreshHighLight()
+    this.requestRender()
+  }
+
+  // 专注模式：只保留给定节点与连线的不透明度，其余淡化，头像隐藏
+  setFocus(ids: Array<string>, links: Array<D3Link>): void {
+    this.clearFocus()
+    let adjacency = this.getAdjacency()
+    ids.forEach(id => {
+      let info = this.processedData.nodeInfoMap[id]
+      this.nodes.focused[info.index] = 1
+    })
+    links.forEach(e => {
+      let index = adjacency.linkIndex[e.id]
+      this.lines.focused[index] = 1
+      if(this.arrows.focused && index < this.arrows.focused.length) {
+        this.arrows.focused[index] = 1
+      }
+    })
+    this.focusUniforms.u_focus.value = 1
+    this.focusUniforms.u_dimOpacity.value = this.config.focusOpacity
+    this.updateImageVisibility()
+    this.updateAttributes('focused')
+  }
+
+  clearFocus(): void {
+    if(!this.focusUniforms.u_focus.value) {
+      return
+    }
+    this.nodes.focused.fill(0)
+    this.lines.focused.fill(0)
+    this.arrows.focused && this.arrows.focused.fill(0)
+    this.focusUniforms.u_focus.value = 0
+    this.updateImageVisibility()
+    this.updateAttributes('focused')
+  }
+
+  // 标记节点、连线与箭头的某个 attribute 需要更新
+  updateAttributes(name: string): void {
+    [this.nodes, this.lines, this.arrows].forEach(e => {
+      let attribute = e.geometry && e.geometry.getAttribute(name) as THREE.BufferAttribute
+      if(attribute) {
+        attribute.needsUpdate = true
+      }
+    })
+    this.labelCacheKey = null
+  }
+
+  // 头像跟随节点隐藏，专注模式下淡化的节点也隐藏头像
+  updateImageVisibility(): void {
+    this.processedData.nodes.forEach(e => {
+      let imagePoint = this.processedData.nodeInfoMap[e.id].imagePoint
+      if(imagePoint && imagePoint.mesh) {
+        imagePoint.mesh.visible = this.isImageVisible(e.id)
+      }
     })
-    targetNodes.push(sourceNode.id)
+  }
+
+  isImageVisible(id: string): boolean {
+    let index = this.processedData.nodeInfoMap[id].index
+    return this.nodes.visibles[index] === 1 && (!this.focusUniforms.u_focus.value || this.nodes.focused[index] === 1)
+  }
 
+  // 生成高亮节点、连线与箭头
+  renderHighLight(targetNodes: Array<string>, links: Array<D3Link>): void {
     this.hlNodes.geometry = new THREE.BufferGeometry()
     this.hlNodes.positions = new Float32Array(targetNodes.length * 3)
     this.hlNodes.scale = new Float32Array(targetNodes.length)
+    this.hlNodes.shapes = new Float32Array(targetNodes.length)
     this.hlNodes.material = new THREE.ShaderMaterial({
       transparent: true,
       uniforms: {
-        texture: {
-          type: 't',
-          value: NODE_TEXTURE
-        },
         'u_compensation': {
           value: window.devicePixelRatio * this.config.height / BASE_HEIGHT
         }
@@ -881,39 +4353,52 @@ export class D3ForceGraph {
       this.hlNodes.positions[i * 3] = this.currentPositionStatus[this.processedData.nodeInfoMap[e].index * 2]
       this.hlNodes.positions[i * 3 + 1] = this.currentPositionStatus[this.processedData.nodeInfoMap[e].index * 2 + 1]
       this.hlNodes.positions[i * 3 + 2] = 0.0001
-      this.hlNodes.scale[i] = this.processedData.nodeInfoMap[e].scale || 1
+      this.hlNodes.scale[i] = this.processedData.nodeInfoMap[e].scale
+      this.hlNodes.shapes[i] = this.processedData.nodeInfoMap[e].shape
     })
 
     this.hlNodes.geometry.addAttribute('position', new THREE.BufferAttribute(this.hlNodes.positions, 3))
     this.hlNodes.geometry.addAttribute('scale', new THREE.BufferAttribute(this.hlNodes.scale, 1))
+    this.hlNodes.geometry.addAttribute('shape', new THREE.BufferAttribute(this.hlNodes.shapes, 1))
     this.hlNodes.geometry.computeBoundingSphere()
 
     this.hlNodes.mesh = new THREE.Points(this.hlNodes.geometry, this.hlNodes.material)
     this.hlNodes.mesh.name = 'hlNodes'
     this.scene.add(this.hlNodes.mesh)
 
-    this.hlLines.geometry = new THREE.BufferGeometry()
-    this.hlLines.positions = new Float32Array(links.length * 6)
+    this.hlLines.geometry = this.createLineGeometry()
+    this.hlLines.positions = new Float32Array(links.length * 4)
+    this.hlLines.widths = new Float32Array(links.length)
+    this.hlLines.dashes = new Float32Array(links.length)
+    this.hlLines.curvatures = new Float32Array(links.length)
     this.hlLines.material = new THREE.ShaderMaterial({
-      opacity: 0.6,
+      uniforms: this.getLineUniforms(),
       vertexShader: hlLinesVS(),
       fragmentShader: hlLinesFS()
     })
 
     links.forEach((e, i) => {
-      this.hlLines.positions[i * 6] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.source].index * 2]
-      this.hlLines.positions[i * 6 + 1] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.source].index * 2 + 1]
-      this.hlLines.positions[i * 6 + 2] = -0.0009
-      this.hlLines.positions[i * 6 + 3] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2]
-      this.hlLines.positions[i * 6 + 4] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2 + 1]
-      this.hlLines.positions[i * 6 + 5] = -0.0009
+      let info = this.processedData.linkInfoMap[e.id]
+      this.hlLines.positions[i * 4] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.source].index * 2]
+      this.hlLines.positions[i * 4 + 1] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.source].index * 2 + 1]
+      this.hlLines.positions[i * 4 + 2] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2]
+      this.hlLines.positions[i * 4 + 3] = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2 + 1]
+      this.hlLines.widths[i] = info.width
+      this.hlLines.dashes[i] = info.dashed ? 1 : 0
+      this.hlLines.curvatures[i] = info.curvature
     })
 
-    this.hlLines.geometry.addAttribute('position', new THREE.BufferAttribute(this.hlLines.positions, 3))
-    this.hlLines.geometry.computeBoundingSphere()
+    this.setLineSegments(this.hlLines.geometry, this.getCurveSegments(links))
+    this.hlLines.geometry.addAttribute('endpoints', new THREE.InstancedBufferAttribute(this.hlLines.positions, 4))
+    this.hlLines.geometry.addAttribute('width', new THREE.InstancedBufferAttribute(this.hlLines.widths, 1))
+    this.hlLines.geometry.addAttribute('dashed', new THREE.InstancedBufferAttribute(this.hlLines.dashes, 1))
+    this.hlLines.geometry.addAttribute('curvature', new THREE.InstancedBufferAttribute(this.hlLines.curvatures, 1))
+    ;(this.hlLines.geometry as THREE.InstancedBufferGeometry).maxInstancedCount = links.length
 
-    this.hlLines.mesh = new THREE.LineSegments(this.hlLines.geometry, this.hlLines.material)
+    this.hlLines.mesh = new THREE.Mesh(this.hlLines.geometry, this.hlLines.material)
     this.hlLines.mesh.name = 'hlLines'
+    this.hlLines.mesh.position.z = -0.0009
+    this.hlLines.mesh.frustumCulled = false
     this.scene.add(this.hlLines.mesh)
 
     if(this.config.showArrow) {
@@ -943,9 +4428,10 @@ export class D3ForceGraph {
 
       links.forEach((e, i) => {
 
-        // 计算箭头的旋转方向与偏移位置
-        let vecX = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2] - this.currentPositionStatus[this.processedData.nodeInfoMap[e.source].index * 2]
-        let vecY = this.currentPositionStatus[this.processedData.nodeInfoMap[e.target].index * 2 + 1] - this.currentPositionStatus[this.processedData.nodeInfoMap[e.source].index * 2 + 1]
+        // 计算箭头的旋转方向与偏移位置，方向为曲线在终点处的切线
+        let curve = this.getLinkCurve(e, this.currentPositionStatus)
+        let vecX = curve[6] - curve[4]
+        let vecY = curve[7] - curve[5]
         vec.x = vecX
         vec.y = vecY
         let angle = v3.Vector3.getAngle(vec, up)
@@ -969,51 +4455,378 @@ export class D3ForceGraph {
       this.hlArrows.mesh.name = 'hlArrows'
       this.scene.add(this.hlArrows.mesh)
     }
+  }
 
-    let canvas1 = document.createElement('canvas')
-    let context1 = canvas1.getContext('2d')
-    canvas1.width = 512
-    canvas1.height = 64
-    context1.clearRect(0, 0, canvas1.width, canvas1.height)
-    context1.font = 'Bold 24px Arial'
-    context1.textAlign = 'center'
-    context1.fillStyle = 'rgb(255,255,255)'
-    let text = sourceId.startsWith('null') ? 'null' : (this.processedData.nodeInfoMap[sourceId].name || sourceId)
-    context1.fillText(text, canvas1.width / 2, 50)
-    let fontTexture = new THREE.Texture(canvas1)
-    fontTexture.needsUpdate = true
-    this.hlText.material = new THREE.MeshBasicMaterial({
-      map: fontTexture,
-      side: THREE.DoubleSide,
-      alphaTest: 0.5
-    })
-    this.hlText.material.transparent = true
-    this.hlText.mesh = new THREE.Mesh(
-        new THREE.PlaneGeometry(canvas1.width, canvas1.height),
-        this.hlText.material as THREE.MeshBasicMaterial
+  // 鼠标相对画布中心的位置，y 轴向上
+  getMousePosition(event: MouseEvent): THREE.Vector2 {
+    this.containerRect = this.$container.getBoundingClientRect()
+    return new THREE.Vector2(
+      event.clientX - this.containerRect.left - this.config.width / 2,
+      this.config.height - event.clientY + this.containerRect.top - this.config.height / 2
     )
-    this.hlText.mesh.scale.set(0.12, 0.12, 0.12)
-    let fontMeshPosition = [this.currentPositionStatus[this.processedData.nodeInfoMap[sourceId].index * 2], this.currentPositionStatus[this.processedData.nodeInfoMap[sourceId].index * 2 + 1] - 4, 0.02]
-    this.hlText.mesh.position.set(fontMeshPosition[0], fontMeshPosition[1], 0)
-    this.hlText.mesh.name = 'hlText'
-    this.scene.add(this.hlText.mesh)
-
-    this.$container.classList.add('hl')
   }
 
   mouseMoveHandler(event: MouseEvent): void {
+    if(this.isHudEvent(event)) {
+      this.mouseOutHandler(event)
+      return
+    }
     this.mouseStatus.mouseOnChart = true
-    this.mouseStatus.mousePosition.x = event.clientX - this.containerRect.left - this.config.width / 2
-    this.mouseStatus.mousePosition.y = this.config.height - event.clientY + this.containerRect.top - this.config.height / 2
+    this.mouseStatus.mousePosition.copy(this.getMousePosition(event))
+    this.mouseStatus.event = event
   }
-  mouseOutHandler(): void {
+  mouseOutHandler(event: MouseEvent): void {
     this.mouseStatus.mouseOnChart = false
     this.mouseStatus.mousePosition.x = -9999
     this.mouseStatus.mousePosition.y = -9999
+    this.mouseStatus.event = event
+  }
+
+  mouseDownHandler(event: MouseEvent): void {
+    this.mouseStatus.mouseDownPosition.set(event.clientX, event.clientY)
+    if(event.button !== 0 || !this.currentPositionStatus || this.dragStatus || this.selectStatus || this.isHudEvent(event)) {
+      return
+    }
+    if(this.config.enableSelection && (event.shiftKey || event.altKey)) {
+      this.startSelect(event)
+      return
+    }
+    if(!this.config.enableDrag) {
+      return
+    }
+    let id = this.pickNode(this.getMousePosition(event))
+    if(id) {
+      // 捕获阶段先于 controls 执行，按住节点时禁止平移画布
+      this.controls.enabled = false
+      this.dragStatus = {
+        id,
+        ids: null,
+        offsets: null,
+        position: null,
+        dragging: false,
+        event
+      }
+      document.addEventListener('mousemove', this.dragMoveHandlerBinded)
+      document.addEventListener('mouseup', this.dragEndHandlerBinded)
+    }
+  }
+
+  dragMoveHandler(event: MouseEvent): void {
+    let position = this.getGraphPosition(this.getMousePosition(event))
+    if(!this.dragStatus.dragging) {
+      if(this.mouseStatus.mouseDownPosition.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) <= CLICK_TOLERANCE) {
+        return
+      }
+      this.startDrag(position, event)
+    }
+    this.dragStatus.position = position
+    this.dragStatus.event = event
+    this.applyDragPosition(this.currentPositionStatus)
+    this.applyDragPosition(this.targetPositionStatus)
+    this.cachePositionStatus && this.applyDragPosition(this.cachePositionStatus)
+    this.updatePosition(this.currentPositionStatus)
+
+    let positions = []
+    for(let i = 0; i < this.dragStatus.ids.length; i++) {
+      positions.push(position.x + this.dragStatus.offsets[i * 2], position.y + this.dragStatus.offsets[i * 2 + 1])
+    }
+    this.worker.postMessage({
+      type: 'drag',
+      indices: this.getNodeIndices(this.dragStatus.ids),
+      positions
+    })
+    this.events.emit('drag', this.getDragEvent(position, event))
+  }
+
+  dragEndHandler(event: MouseEvent): void {
+    document.removeEventListener('mousemove', this.dragMoveHandlerBinded)
+    document.removeEventListener('mouseup', this.dragEndHandlerBinded)
+    this.controls.enabled = true
+    if(this.dragStatus.dragging) {
+      if(this.config.pinOnDragEnd) {
+        this.dragStatus.ids.forEach(id => {
+          this.processedData.nodeInfoMap[id].fixed = true
+        })
+      }
+      this.worker.postMessage({
+        type: 'dragend',
+        indices: this.getNodeIndices(this.dragStatus.ids),
+        pin: this.config.pinOnDragEnd
+      })
+      this.events.emit('dragend', this.getDragEvent(this.dragStatus.position, event))
+    }
+    this.dragStatus = null
+  }
+
+  startDrag(position: GraphPosition, event: MouseEvent): void {
+    let ids = this.getDragTargets(this.dragStatus.id)
+    this.dragStatus.ids = ids
+    this.dragStatus.offsets = new Float32Array(ids.length * 2)
+    ids.forEach((id, i) => {
+      let index = this.processedData.nodeInfoMap[id].index
+      this.dragStatus.offsets[i * 2] = this.currentPositionStatus[index * 2] - position.x
+      this.dragStatus.offsets[i * 2 + 1] = this.currentPositionStatus[index * 2 + 1] - position.y
+    })
+    this.dragStatus.position = position
+    this.dragStatus.dragging = true
+
+    // 拖拽期间隐藏高亮，布局结束后重新生成
+    if(this.lockHighlightToken) {
+      this.removeHighLightMesh()
+    }else {
+      this.unhighlight()
+    }
+    this.prepareRelayout()
+    this.worker.postMessage({
+      type: 'dragstart',
+      indices: this.getNodeIndices(ids)
+    })
+    this.events.emit('dragstart', this.getDragEvent(position, event))
+  }
+
+  // 按下某节点时一起拖动的节点，按下已选中的节点时拖动整个选择
+  getDragTargets(id: string): Array<string> {
+    return this.selected[id] ? this.getSelectedIds() : [id]
+  }
+
+  // 将被拖动节点的位置写入 positions，使其跟随指针
+  applyDragPosition(positions: Float32Array): void {
+    if(!this.dragStatus || !this.dragStatus.dragging) {
+      return
+    }
+    this.dragStatus.ids.forEach((id, i) => {
+      let index = this.processedData.nodeInfoMap[id].index
+      positions[index * 2] = this.dragStatus.position.x + this.dragStatus.offsets[i * 2]
+      positions[index * 2 + 1] = this.dragStatus.position.y + this.dragStatus.offsets[i * 2 + 1]
+    })
+  }
+
+  getDragEvent(position: GraphPosition, event: MouseEvent): GraphDragEvent {
+    return Object.assign(this.getNodeEvent(this.dragStatus.id, position, event), {
+      nodes: this.dragStatus.ids.map(id => this.processedData.nodeInfoMap[id].data)
+    })
+  }
+
+  getNodeIndices(ids: Array<string>): Array<number> {
+    return ids.filter(id => this.processedData.nodeInfoMap[id]).map(id => this.processedData.nodeInfoMap[id].index)
+  }
+
+  // 固定节点，传入 position 时将节点移动到该位置
+  pinNode(id: string, position?: GraphPosition): void {
+    this.flushDataSync()
+    let info = this.processedData.nodeInfoMap[id]
+    if(!info) {
+      return
+    }
+    info.fixed = true
+    if(position && this.currentPositionStatus) {
+      [this.currentPositionStatus, this.targetPositionStatus, this.cachePositionStatus].forEach(positions => {
+        if(positions) {
+          positions[info.index * 2] = position.x
+          positions[info.index * 2 + 1] = position.y
+        }
+      })
+      this.updatePosition(this.currentPositionStatus)
+      this.refreshHighLight()
+      this.startRender()
+    }
+    this.worker.postMessage({
+      type: 'pin',
+      indices: [info.index],
+      positions: position ? [position.x, position.y] : null
+    })
+  }
+
+  unpinNode(id: string): void {
+    this.flushDataSync()
+    let info = this.processedData.nodeInfoMap[id]
+    if(!info) {
+      return
+    }
+    info.fixed = false
+    this.worker.postMessage({
+      type: 'unpin',
+      indices: [info.index]
+    })
+  }
+
+  // 开始框选（shift）或套索选择（alt），同时按住 ctrl / meta 时加入当前选择
+  startSelect(event: MouseEvent): void {
+    let position = this.getGraphPosition(this.getMousePosition(event))
+    if(isNaN(position.x)) {
+      return
+    }
+    // 捕获阶段先于 controls 执行，选择期间禁止平移画布
+    this.controls.enabled = false
+    this.selectStatus = {
+      mode: event.altKey ? 'lasso' : 'rect',
+      points: [position],
+      additive: event.ctrlKey || event.metaKey
+    }
+    this.$container.classList.add('selecting')
+    event.preventDefault()
+    document.addEventListener('mousemove', this.selectMoveHandlerBinded)
+    document.addEventListener('mouseup', this.selectEndHandlerBinded)
+  }
+
+  selectMoveHandler(event: MouseEvent): void {
+    let position = this.getGraphPosition(this.getMousePosition(event))
+    if(isNaN(position.x)) {
+      return
+    }
+    if(this.selectStatus.mode === 'rect') {
+      this.selectStatus.points[1] = position
+    }else {
+      this.selectStatus.points.push(position)
+    }
+    this.renderSelectionArea()
+    this.requestRender()
+  }
+
+  selectEndHandler(event: MouseEvent): void {
+    document.removeEventListener('mousemove', this.selectMoveHandlerBinded)
+    document.removeEventListener('mouseup', this.selectEndHandlerBinded)
+    this.controls.enabled = true
+    this.$container.classList.remove('selecting')
+    this.scene.remove(this.scene.getObjectByName('selectionArea'))
+    let status = this.selectStatus
+    this.selectStatus = null
+
+    // 未移动时视为点击，切换指针下节点的选中状态
+    if(this.mouseStatus.mouseDownPosition.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) <= CLICK_TOLERANCE) {
+      let id = this.pickNode(this.getMousePosition(event))
+      id && this.toggle([id])
+    }else {
+      this.select(this.getNodesInArea(status), status.additive)
+    }
+    this.requestRender()
+  }
+
+  // 框选矩形或套索多边形范围内的节点
+  getNodesInArea(status: SelectStatus): Array<string> {
+    let points = status.points
+    if(points.length < (status.mode === 'rect' ? 2 : 3)) {
+      return []
+    }
+    let rect = points.reduce((result, e) => ({
+      left: Math.min(result.left, e.x),
+      right: Math.max(result.right, e.x),
+      top: Math.max(result.top, e.y),
+      bottom: Math.min(result.bottom, e.y)
+    }), {
+      left: Infinity,
+      right: -Infinity,
+      top: -Infinity,
+      bottom: Infinity
+    })
+    let nodes = this.getNodesInRect(rect, this.currentPositionStatus)
+    if(status.mode === 'lasso') {
+      nodes = nodes.filter(e => this.isPointInPolygon(e, points))
+    }
+    return nodes.map(e => e.id)
+  }
+
+  // 射线法判断点是否在多边形内
+  isPointInPolygon(point: GraphPosition, polygon: Array<GraphPosition>): boolean {
+    let inside = false
+    for(let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      let a = polygon[i]
+      let b = polygon[j]
+      if((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+        inside = !inside
+      }
+    }
+    return inside
+  }
+
+  // 绘制框选矩形或套索路径
+  renderSelectionArea(): void {
+    this.scene.remove(this.scene.getObjectByName('selectionArea'))
+    this.selectionArea.geometry && this.selectionArea.geometry.dispose()
+    let points = this.selectStatus.points
+    if(this.selectStatus.mode === 'rect') {
+      points = points.length < 2 ? [] : [points[0], {
+        x: points[1].x,
+        y: points[0].y
+      }, points[1], {
+        x: points[0].x,
+        y: points[1].y
+      }]
+    }
+    // 回到起点，闭合路径
+    points = points.length ? points.concat(points[0]) : points
+    let positions = new Float32Array(points.length * 3)
+    points.forEach((e, i) => {
+      positions[i * 3] = e.x
+      positions[i * 3 + 1] = e.y
+      positions[i * 3 + 2] = 0.0003
+    })
+    this.selectionArea.geometry = new THREE.BufferGeometry()
+    this.selectionArea.geometry.addAttribute('position', new THREE.BufferAttribute(positions, 3))
+    this.selectionArea.material = this.selectionArea.material || new THREE.LineBasicMaterial({
+      color: new THREE.Color(this.config.selectionColor[0] / 255, this.config.selectionColor[1] / 255, this.config.selectionColor[2] / 255)
+    })
+    this.selectionArea.mesh = new THREE.Line(this.selectionArea.geometry, this.selectionArea.material as THREE.LineBasicMaterial)
+    this.selectionArea.mesh.name = 'selectionArea'
+    this.selectionArea.mesh.frustumCulled = false
+    this.scene.add(this.selectionArea.mesh)
+  }
+
+  clickHandler(event: MouseEvent): void {
+    // 拖拽平移结束时也会触发 click，忽略
+    if(this.mouseStatus.mouseDownPosition.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) > CLICK_TOLERANCE) {
+      return
+    }
+    this.dispatchPointerEvent(event, 'nodeClick', 'linkClick', 'backgroundClick')
+  }
+
+  dblClickHandler(event: MouseEvent): void {
+    this.dispatchPointerEvent(event, 'nodeDblClick')
+  }
+
+  contextMenuHandler(event: MouseEvent): void {
+    this.dispatchPointerEvent(event, 'nodeContextMenu')
+  }
+
+  // 依次拾取节点、连线，将事件分发为对应的 mitt 事件
+  dispatchPointerEvent(event: MouseEvent, nodeEventName: string, linkEventName?: string, backgroundEventName?: string): void {
+    if(!this.scene || this.isHudEvent(event)) {
+      return
+    }
+    let mouse = this.getMousePosition(event)
+    let position = this.getGraphPosition(mouse)
+    let id = this.pickNode(mouse)
+    if(id) {
+      this.events.emit(nodeEventName, this.getNodeEvent(id, position, event))
+      return
+    }
+    if(linkEventName) {
+      let link = this.pickLink(mouse)
+      if(link) {
+        this.events.emit(linkEventName, this.getLinkEvent(link, position, event))
+        return
+      }
+    }
+    if(backgroundEventName) {
+      let backgroundEvent: GraphPointerEvent = {
+        x: position.x,
+        y: position.y,
+        event
+      }
+      this.events.emit(backgroundEventName, backgroundEvent)
+    }
   }
 
   mouseMoveHandlerBinded = this.mouseMoveHandler.bind(this)
   mouseOutHandlerBinded = this.mouseOutHandler.bind(this)
+  mouseDownHandlerBinded = this.mouseDownHandler.bind(this)
+  dragMoveHandlerBinded = this.dragMoveHandler.bind(this)
+  dragEndHandlerBinded = this.dragEndHandler.bind(this)
+  selectMoveHandlerBinded = this.selectMoveHandler.bind(this)
+  selectEndHandlerBinded = this.selectEndHandler.bind(this)
+  clickHandlerBinded = this.clickHandler.bind(this)
+  dblClickHandlerBinded = this.dblClickHandler.bind(this)
+  contextMenuHandlerBinded = this.contextMenuHandler.bind(this)
 
   chartMouseEnterHandler(): void {
     this.mouseStatus.mouseOnChart = true
@@ -1038,6 +4851,10 @@ export class D3ForceGraph {
   bindEvent(): void {
     this.$container.addEventListener('mouseenter', this.chartMouseEnterHandlerBinded)
     this.$container.addEventListener('mouseleave', this.chartMouseLeaveHandlerBinded)
+    this.$container.addEventListener('mousedown', this.mouseDownHandlerBinded, true)
+    this.$container.addEventListener('click', this.clickHandlerBinded)
+    this.$container.addEventListener('dblclick', this.dblClickHandlerBinded)
+    this.$container.addEventListener('contextmenu', this.contextMenuHandlerBinded)
   }
 
   // 解绑事件
@@ -1046,11 +4863,26 @@ export class D3ForceGraph {
     this.$container.removeEventListener('mouseleave', this.chartMouseLeaveHandlerBinded)
     this.$container.removeEventListener('mousemove', this.mouseMoveHandlerBinded)
     this.$container.removeEventListener('mouseout', this.mouseOutHandlerBinded)
+    this.$container.removeEventListener('mousedown', this.mouseDownHandlerBinded, true)
+    document.removeEventListener('mousemove', this.dragMoveHandlerBinded)
+    document.removeEventListener('mouseup', this.dragEndHandlerBinded)
+    document.removeEventListener('mousemove', this.selectMoveHandlerBinded)
+    document.removeEventListener('mouseup', this.selectEndHandlerBinded)
+    this.$container.removeEventListener('click', this.clickHandlerBinded)
+    this.$container.removeEventListener('dblclick', this.dblClickHandlerBinded)
+    this.$container.removeEventListener('contextmenu', this.contextMenuHandlerBinded)
   }
 
   destroy(): void {
     this.stopRender()
     this.unbindEvent()
+    this.worker.terminate()
+    this.worker = null
+    this.helpers.forEach(helper => helper.terminate())
+    this.helpers = []
+    this.sharedPositions = null
+    this.sharedControl = null
+    this.sharedReadPositions = null
     this.scene = null
     this.camera = null
     this.controls = null
@@ -1103,6 +4935,37 @@ export class D3ForceGraph {
       material: null,
       mesh: null
     }
+    this.labels = {
+      geometry: null,
+      positions: null,
+      material: null,
+      mesh: null
+    }
+    this.labelAtlas = null
+    this.selection = {
+      geometry: null,
+      positions: null,
+      scale: null,
+      material: null,
+      mesh: null
+    }
+    this.selectionArea = {
+      geometry: null,
+      material: null,
+      mesh: null
+    }
+    this.hulls = {
+      geometry: null,
+      material: null,
+      mesh: null
+    }
+    this.selected = {}
+    this.selectStatus = null
+    if(this.$hud) {
+      this.$hud.removeEventListener('click', this.hudClickHandlerBinded)
+      this.$container.removeChild(this.$hud)
+      this.$hud = null
+    }
     this.renderer.domElement.parentElement.removeChild(this.renderer.domElement)
     this.renderer = null
   }
@@ -1113,6 +4976,9 @@ export class D3ForceGraph {
     // this.config.width = width
     // this.config.height = height
     this.camera.updateProjectionMatrix()
+    ;[this.lines, this.hlLines, this.labels].forEach(e => {
+      e.material && e.material.uniforms.u_resolution.value.set(width, height)
+    })
     this.renderer.setSize(width, height)
     this.renderer.render(this.scene, this.camera)
   }
@@ -1,5 +1,6 @@
 uniform sampler2D texture;
 varying float v_Rotate;
+varying float v_Opacity;
 
 void main() {
   vec2 coord = gl_PointCoord;
@@ -7,5 +8,5 @@ void main() {
   float cos_factor = cos(v_Rotate);
   coord = (coord - 0.5) * mat2(cos_factor, sin_factor, -sin_factor, cos_factor);
   coord += 0.5;
-  gl_FragColor = texture2D(texture, coord) * vec4(1, 1, 1, 0.9);
+  gl_FragColor = texture2D(texture, coord) * vec4(1, 1, 1, 0.9 * v_Opacity);
 }
\ No newline at end of file
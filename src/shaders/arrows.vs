@@ -1,11 +1,17 @@
 attribute float rotate;
+attribute float focused;
+attribute float visible;
 uniform float u_compensation;
+uniform float u_focus;
+uniform float u_dimOpacity;
 varying float v_Rotate;
+varying float v_Opacity;
 
 void main() {
   vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
   vec3 distanceVector = cameraPosition - position;
   gl_PointSize = ${params.arrowSize} * u_compensation / sqrt(dot(distanceVector, distanceVector));
-  gl_Position = projectionMatrix * mvPosition;
+  gl_Position = visible < 0.5 ? vec4(2.0, 2.0, 2.0, 1.0) : projectionMatrix * mvPosition;
   v_Rotate = rotate;
+  v_Opacity = u_focus > 0.5 && focused < 0.5 ? u_dimOpacity : 1.0;
 }
\ No newline at end of file
@@ -1,4 +1,9 @@
+uniform vec2 u_dash;
+varying float v_Dashed;
+varying float v_Distance;
+
 void main() {
+  if(v_Dashed > 0.5 && mod(v_Distance, u_dash.x + u_dash.y) > u_dash.x) discard;
   gl_FragColor = vec4(1, 0, 0, 0.6);
   if(gl_FragColor.a < 0.5) discard;
 }
\ No newline at end of file
@@ -1,4 +1,35 @@
+attribute vec4 endpoints;
+attribute float curvature;
+attribute float width;
+attribute float dashed;
+uniform vec2 u_resolution;
+varying float v_Dashed;
+varying float v_Distance;
+
 void main() {
-  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-  gl_Position = projectionMatrix * mvPosition;
+  vec2 source = endpoints.xy;
+  vec2 target = endpoints.zw;
+  vec2 delta = target - source;
+  vec2 c1 = (source + target) * 0.5 + vec2(-delta.y, delta.x) * curvature;
+  vec2 c2 = c1;
+  if(delta == vec2(0.0)) {
+    c1 = source + vec2(-0.5, 0.8660254) * curvature;
+    c2 = source + vec2(0.5, 0.8660254) * curvature;
+  }
+  float t = position.x;
+  float s = 1.0 - t;
+  vec2 point = s * s * s * source + 3.0 * s * s * t * c1 + 3.0 * s * t * t * c2 + t * t * t * target;
+  vec2 tangent = s * s * (c1 - source) + 2.0 * s * t * (c2 - c1) + t * t * (target - c2);
+  tangent = length(tangent) > 0.0 ? normalize(tangent) : vec2(1.0, 0.0);
+
+  vec4 clip = projectionMatrix * modelViewMatrix * vec4(point, 0.0, 1.0);
+  vec4 ahead = projectionMatrix * modelViewMatrix * vec4(point + tangent, 0.0, 1.0);
+  vec2 direction = (ahead.xy / ahead.w - clip.xy / clip.w) * u_resolution * 0.5;
+  float pixels = length(direction);
+  vec2 normal = pixels > 0.0 ? vec2(-direction.y, direction.x) / pixels : vec2(0.0, 1.0);
+  clip.xy += normal * position.y * width / u_resolution * clip.w;
+  gl_Position = clip;
+
+  v_Dashed = dashed;
+  v_Distance = t * (length(delta) + length(c1 - source) + length(c2 - c1) + length(target - c2)) * 0.5 * pixels;
 }
\ No newline at end of file
@@ -1,5 +1,29 @@
-uniform sampler2D texture;
+varying float v_Shape;
+
+float aastep(float threshold, float value) {
+#ifdef GL_OES_standard_derivatives
+  float afwidth = 1.0 * fwidth(value);
+#else
+  float afwidth = 0.05;
+#endif
+  return smoothstep(threshold - afwidth, threshold + afwidth, value);
+}
+
+// 与 nodes.fs 一致，高亮节点沿用节点形状
+float shapeDistance(vec2 p) {
+  if(v_Shape < 0.5) {
+    return length(p);
+  }else if(v_Shape < 1.5) {
+    return max(abs(p.x), abs(p.y));
+  }else if(v_Shape < 2.5) {
+    p.y += 0.125;
+    return 2.0 * max(-p.y, max(dot(p, vec2(0.8660254, 0.5)), dot(p, vec2(-0.8660254, 0.5))));
+  }
+  return abs(p.x) + abs(p.y);
+}
 
 void main() {
-    gl_FragColor = texture2D(texture, gl_PointCoord) * vec4(1, 0, 0, 0.6);
+  vec2 p = vec2(gl_PointCoord.x - 0.5, 0.5 - gl_PointCoord.y);
+  gl_FragColor = vec4(1, 0, 0, 0.6 * (1.0 - aastep(0.5, shapeDistance(p))));
+  if(gl_FragColor.a == 0.0) discard;
 }
\ No newline at end of file
@@ -0,0 +1,6 @@
+uniform float u_opacity;
+varying vec3 v_Color;
+
+void main() {
+  gl_FragColor = vec4(v_Color, u_opacity);
+}
\ No newline at end of file
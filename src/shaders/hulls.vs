@@ -0,0 +1,7 @@
+attribute vec3 color;
+varying vec3 v_Color;
+
+void main() {
+  v_Color = color;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+uniform sampler2D texture;
+uniform vec3 u_color;
+varying vec2 v_Uv;
+
+void main() {
+  gl_FragColor = vec4(u_color, texture2D(texture, v_Uv).a);
+  if(gl_FragColor.a == 0.0) discard;
+}
\ No newline at end of file
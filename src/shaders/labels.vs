@@ -0,0 +1,16 @@
+attribute vec2 anchor;
+attribute vec4 offset;
+attribute vec4 glyph;
+attribute float angle;
+uniform vec2 u_resolution;
+varying vec2 v_Uv;
+
+// 每个字形为一个四边形，offset 为相对锚点的左下角位置与宽高（px），glyph 为 atlas 中的纹理坐标，angle 为绕锚点的旋转角度
+void main() {
+  vec4 clip = projectionMatrix * modelViewMatrix * vec4(anchor, 0.0, 1.0);
+  vec2 corner = offset.xy + position.xy * offset.zw;
+  corner = vec2(corner.x * cos(angle) - corner.y * sin(angle), corner.x * sin(angle) + corner.y * cos(angle));
+  clip.xy += corner * 2.0 / u_resolution * clip.w;
+  gl_Position = clip;
+  v_Uv = mix(glyph.xy, glyph.zw, position.xy);
+}
\ No newline at end of file
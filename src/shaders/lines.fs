@@ -1,5 +1,10 @@
+uniform vec2 u_dash;
 varying vec3 v_Color;
+varying float v_Opacity;
+varying float v_Dashed;
+varying float v_Distance;
 
 void main() {
-  gl_FragColor = vec4(v_Color.x, v_Color.y, v_Color.z, 0.6);
+  if(v_Dashed > 0.5 && mod(v_Distance, u_dash.x + u_dash.y) > u_dash.x) discard;
+  gl_FragColor = vec4(v_Color, v_Opacity);
 }
\ No newline at end of file
@@ -1,8 +1,51 @@
+attribute vec4 endpoints;
+attribute float curvature;
 attribute vec3 color;
+attribute float opacity;
+attribute float width;
+attribute float dashed;
+attribute float focused;
+attribute float visible;
+uniform vec2 u_resolution;
+uniform float u_focus;
+uniform float u_dimOpacity;
 varying vec3 v_Color;
+varying float v_Opacity;
+varying float v_Dashed;
+varying float v_Distance;
 
+// 连线为三次贝塞尔曲线，position.x 为沿线位置（0 起点，1 终点），position.y 为线宽方向（-1 / 1）
+// curvature 为 0 时为直线；起止点相同时为自环，curvature 为环的大小
 void main() {
-  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-  gl_Position = projectionMatrix * mvPosition;
+  vec2 source = endpoints.xy;
+  vec2 target = endpoints.zw;
+  vec2 delta = target - source;
+  vec2 c1 = (source + target) * 0.5 + vec2(-delta.y, delta.x) * curvature;
+  vec2 c2 = c1;
+  if(delta == vec2(0.0)) {
+    c1 = source + vec2(-0.5, 0.8660254) * curvature;
+    c2 = source + vec2(0.5, 0.8660254) * curvature;
+  }
+  float t = position.x;
+  float s = 1.0 - t;
+  vec2 point = s * s * s * source + 3.0 * s * s * t * c1 + 3.0 * s * t * t * c2 + t * t * t * target;
+  vec2 tangent = s * s * (c1 - source) + 2.0 * s * t * (c2 - c1) + t * t * (target - c2);
+  tangent = length(tangent) > 0.0 ? normalize(tangent) : vec2(1.0, 0.0);
+
+  vec4 clip = projectionMatrix * modelViewMatrix * vec4(point, 0.0, 1.0);
+  vec4 ahead = projectionMatrix * modelViewMatrix * vec4(point + tangent, 0.0, 1.0);
+  // 单位长度对应的屏幕像素
+  vec2 direction = (ahead.xy / ahead.w - clip.xy / clip.w) * u_resolution * 0.5;
+  float pixels = length(direction);
+  vec2 normal = pixels > 0.0 ? vec2(-direction.y, direction.x) / pixels : vec2(0.0, 1.0);
+  // 线宽为屏幕像素
+  clip.xy += normal * position.y * width / u_resolution * clip.w;
+  // 被过滤的连线退化到裁剪空间外的一点
+  gl_Position = visible < 0.5 ? vec4(2.0, 2.0, 2.0, 1.0) : clip;
+
   v_Color = color;
+  v_Opacity = u_focus > 0.5 && focused < 0.5 ? opacity * u_dimOpacity : opacity;
+  v_Dashed = dashed;
+  // 曲线长度近似为弦长与控制多边形周长的平均
+  v_Distance = t * (length(delta) + length(c1 - source) + length(c2 - c1) + length(target - c2)) * 0.5 * pixels;
 }
\ No newline at end of file
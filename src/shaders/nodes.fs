@@ -1,4 +1,8 @@
-uniform sampler2D texture;
+varying vec3 v_Color;
+varying float v_Opacity;
+varying vec3 v_BorderColor;
+varying float v_BorderWidth;
+varying float v_Shape;
 
 float aastep(float threshold, float value) {
 #ifdef GL_OES_standard_derivatives
@@ -9,10 +13,24 @@ float aastep(float threshold, float value) {
   return smoothstep(threshold - afwidth, threshold + afwidth, value);
 }
 
+// 0: 圆形，1: 正方形，2: 三角形，3: 菱形，边界处取值为 0.5
+float shapeDistance(vec2 p) {
+  if(v_Shape < 0.5) {
+    return length(p);
+  }else if(v_Shape < 1.5) {
+    return max(abs(p.x), abs(p.y));
+  }else if(v_Shape < 2.5) {
+    p.y += 0.125;
+    return 2.0 * max(-p.y, max(dot(p, vec2(0.8660254, 0.5)), dot(p, vec2(-0.8660254, 0.5))));
+  }
+  return abs(p.x) + abs(p.y);
+}
+
 void main() {
-  vec4 transparent = vec4(0.0, 0.0, 0.0, 0.0);
-  vec4 t_Color = texture2D(texture, gl_PointCoord);
-  float distance = length(gl_PointCoord - vec2(0.5, 0.5));
-  gl_FragColor = mix(t_Color, transparent, aastep(0.5, distance));
+  vec2 p = vec2(gl_PointCoord.x - 0.5, 0.5 - gl_PointCoord.y);
+  float distance = shapeDistance(p);
+  // borderWidth 为相对节点半径的比例
+  vec3 color = mix(v_Color, v_BorderColor, aastep(0.5 - 0.5 * v_BorderWidth, distance));
+  gl_FragColor = vec4(color, v_Opacity * (1.0 - aastep(0.5, distance)));
   if(gl_FragColor.a == 0.0) discard;
 }
\ No newline at end of file
@@ -1,9 +1,30 @@
 attribute float scale;
+attribute vec3 color;
+attribute float opacity;
+attribute vec3 borderColor;
+attribute float borderWidth;
+attribute float shape;
+attribute float focused;
+attribute float visible;
 uniform float u_compensation;
+uniform float u_focus;
+uniform float u_dimOpacity;
+varying vec3 v_Color;
+varying float v_Opacity;
+varying vec3 v_BorderColor;
+varying float v_BorderWidth;
+varying float v_Shape;
 
 void main() {
   vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
   vec3 distanceVector = cameraPosition - position;
   gl_PointSize = ${params.nodeSize} * u_compensation * scale / sqrt(dot(distanceVector, distanceVector));
-  gl_Position = projectionMatrix * mvPosition;
+  // 被过滤的节点移到裁剪空间外
+  gl_Position = visible < 0.5 ? vec4(2.0, 2.0, 2.0, 1.0) : projectionMatrix * mvPosition;
+  v_Color = color;
+  // 专注模式下淡化邻域以外的节点
+  v_Opacity = u_focus > 0.5 && focused < 0.5 ? opacity * u_dimOpacity : opacity;
+  v_BorderColor = borderColor;
+  v_BorderWidth = borderWidth;
+  v_Shape = shape;
 }
@@ -0,0 +1,32 @@
+uniform vec3 u_color;
+varying float v_Shape;
+
+float aastep(float threshold, float value) {
+#ifdef GL_OES_standard_derivatives
+  float afwidth = 1.0 * fwidth(value);
+#else
+  float afwidth = 0.05;
+#endif
+  return smoothstep(threshold - afwidth, threshold + afwidth, value);
+}
+
+// 与 nodes.fs 一致，选中框沿用节点形状
+float shapeDistance(vec2 p) {
+  if(v_Shape < 0.5) {
+    return length(p);
+  }else if(v_Shape < 1.5) {
+    return max(abs(p.x), abs(p.y));
+  }else if(v_Shape < 2.5) {
+    p.y += 0.125;
+    return 2.0 * max(-p.y, max(dot(p, vec2(0.8660254, 0.5)), dot(p, vec2(-0.8660254, 0.5))));
+  }
+  return abs(p.x) + abs(p.y);
+}
+
+// 在节点外侧绘制一圈描边
+void main() {
+  vec2 p = vec2(gl_PointCoord.x - 0.5, 0.5 - gl_PointCoord.y);
+  float d = shapeDistance(p);
+  gl_FragColor = vec4(u_color, (1.0 - aastep(0.5, d)) * aastep(0.38, d));
+  if(gl_FragColor.a == 0.0) discard;
+}
\ No newline at end of file
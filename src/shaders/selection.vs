@@ -0,0 +1,12 @@
+attribute float scale;
+attribute float shape;
+uniform float u_compensation;
+varying float v_Shape;
+
+void main() {
+  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+  vec3 distanceVector = cameraPosition - position;
+  gl_PointSize = ${params.nodeSize} * u_compensation * scale / sqrt(dot(distanceVector, distanceVector));
+  gl_Position = projectionMatrix * mvPosition;
+  v_Shape = shape;
+}
\ No newline at end of file
@@ -6,64 +6,1671 @@ importScripts('d3-timer/dist/d3-timer.min.js')
 importScripts('d3-force/dist/d3-force.min.js')
 
 let simulation = null
+let nodes = []
+let links = []
 let n = 0
 let i = 0
+let timer = null
+let dragging = false
+let paused = false
+// 本次布局开始计算的时间，暂停期间不计入
+let runStartTime = 0
+let pauseTime = 0
+// maxTicks: 单次布局最多 tick 数，timeBudget: 单次布局最长计算时间（ms）
+let options = {}
+// 最近一次使用的力模型
+let forceOptions = {}
+// 不参与布局的节点与连线，1 为隐藏，null 表示全部参与
+let hiddenNodes = null
+let hiddenLinks = null
+// 布局算法，force 以外的布局计算出目标位置后从当前位置过渡
+let layout = {
+  type: 'force'
+}
+// 进行中的过渡，from / to 为各节点的起止位置
+let transition = null
+// 进行中的多层布局，见 startMultilevel
+let multilevel = null
+// 与主线程共享的节点位置，为 null 时每次 tick 转移一份新的 buffer
+// 版本号随 tick 返回，主线程据此丢弃节点数变化前的 tick
+let sharedPositions = null
+let sharedControl = null
+let sharedVersion = 0
+let sharedSequence = 0
+// 分担斥力计算的辅助 worker，为空时使用 d3.forceManyBody
+let helperPorts = []
 
-onmessage = function(event) {
-  if(event.data.type === 'start') {
-    let nodes = []
-    for(let i = 0; i < event.data.nodes; i++) {
-      nodes.push({
-        id: i
+// 每个时间片最多连续计算的时长（ms），之后让出线程以响应拖拽等消息
+const TIME_SLICE = 16
+// 多层布局：节点数不超过该值或一次合并后仍剩下该比例的节点时停止合并
+const MULTILEVEL_MIN_NODES = 50
+const MULTILEVEL_MIN_REDUCTION = 0.9
+// 最粗的一层从头布局，之后每展开一层以较小的 alpha 计算固定的 tick 数
+const MULTILEVEL_COARSEST_TICKS = 300
+const MULTILEVEL_TICKS = 50
+const MULTILEVEL_ALPHA = 0.2
+// 节点数小于该值时斥力不分给辅助 worker
+const PARALLEL_MIN_NODES = 1000
+// 等待辅助 worker 的最长时间（ms），超时后由当前 worker 补算
+const HELPER_TIMEOUT = 1000
+// 共享位置缓冲区开头的两个 Int32：最近写完的序号 * 2 + 槽位，主线程正在读取的槽位（-1 为未读取），之后是两个槽位的位置
+const SHARED_PUBLISHED = 0
+const SHARED_READING = 1
+const SHARED_HEADER = 2
+
+function getLinks(linksBuffer) {
+  let result = []
+  let buffer = new Int32Array(linksBuffer)
+
+  for(let i = 0; i < buffer.length / 2; i++) {
+    result.push({
+      id: i,
+      source: buffer[2 * i],
+      target: buffer[2 * i + 1]
+    })
+  }
+  return result
+}
+
+// 数值直接使用，数组按节点/连线下标取值（部分节点不参与布局时 d3 的 index 会变化，使用 id）
+function accessor(value) {
+  return typeof value === 'number' ? value : d => value[d.id]
+}
+
+function getActiveNodes() {
+  return hiddenNodes ? nodes.filter((e, i) => !hiddenNodes[i]) : nodes
+}
+
+function getActiveLinks() {
+  return hiddenLinks ? links.filter((e, i) => !hiddenLinks[i]) : links
+}
+
+// 将同组节点拉向组的重心，groups 为各节点的分组编号，-1 为未分组
+function forceCluster(groups) {
+  let clusterNodes = []
+  let strength = () => 0.1
+  let groupCount = groups.reduce((max, e) => Math.max(max, e + 1), 0)
+
+  function force(alpha) {
+    // 每组的节点数与坐标之和
+    let sums = new Float64Array(groupCount * 3)
+    clusterNodes.forEach(d => {
+      let group = groups[d.id]
+      if(group >= 0) {
+        sums[group * 3] += 1
+        sums[group * 3 + 1] += d.x
+        sums[group * 3 + 2] += d.y
+      }
+    })
+    clusterNodes.forEach(d => {
+      let group = groups[d.id]
+      if(group >= 0 && sums[group * 3] > 1) {
+        let k = strength(d) * alpha
+        d.vx += (sums[group * 3 + 1] / sums[group * 3] - d.x) * k
+        d.vy += (sums[group * 3 + 2] / sums[group * 3] - d.y) * k
+      }
+    })
+  }
+
+  force.initialize = _ => {
+    clusterNodes = _
+  }
+
+  force.strength = _ => {
+    strength = typeof _ === 'function' ? _ : () => _
+    return force
+  }
+
+  return force
+}
+
+// 有辅助 worker 时并行计算斥力
+function forceManyBody() {
+  return helperPorts.length ? forceParallelManyBody(helperPorts) : d3.forceManyBody()
+}
+
+// 与 d3.forceManyBody 相同的斥力，节点分段后由当前 worker 与各辅助 worker 同时计算
+// 位置、强度与结果放在 SharedArrayBuffer 中，当前 worker 算完第一段后用 Atomics 等待其他段
+function forceParallelManyBody(ports) {
+  let forceNodes = []
+  let strength = () => -30
+  let distanceMin2 = 1
+  let distanceMax2 = Infinity
+  let theta2 = 0.81
+  let shared = null
+  let generation = 0
+
+  function force(alpha) {
+    let count = forceNodes.length
+    let slices = count < PARALLEL_MIN_NODES ? 1 : ports.length + 1
+    let size = Math.ceil(count / slices)
+    forceNodes.forEach((d, j) => {
+      shared.positions[j * 2] = d.x
+      shared.positions[j * 2 + 1] = d.y
+    })
+    generation++
+    // 辅助 worker 据此丢弃过期的任务
+    Atomics.store(shared.control, ports.length, generation)
+    let tasks = []
+    for(let k = 0; k < slices; k++) {
+      tasks.push(Object.assign({
+        type: 'field',
+        slice: k - 1,
+        generation,
+        generationIndex: ports.length,
+        count,
+        start: Math.min(k * size, count),
+        end: Math.min((k + 1) * size, count),
+        theta2,
+        distanceMin2,
+        distanceMax2
+      }, shared))
+    }
+    tasks.slice(1).forEach(task => {
+      ports[task.slice].postMessage(task)
+    })
+    computeField(tasks[0])
+    // 辅助 worker 未能按时完成（如已退出）时在当前 worker 补算
+    // 结果写入单独的数组，迟到的辅助 worker 仍可能写入共享的结果
+    let deadline = Date.now() + HELPER_TIMEOUT
+    tasks.slice(1).forEach(task => {
+      let value = Atomics.load(shared.control, task.slice)
+      while(value !== generation) {
+        if(Atomics.wait(shared.control, task.slice, value, Math.max(deadline - Date.now(), 0)) === 'timed-out') {
+          task.field = new Float64Array(count * 2)
+          computeField(task)
+          break
+        }
+        value = Atomics.load(shared.control, task.slice)
+      }
+    })
+    tasks.forEach(task => {
+      for(let j = task.start; j < task.end; j++) {
+        forceNodes[j].vx += task.field[j * 2] * alpha
+        forceNodes[j].vy += task.field[j * 2 + 1] * alpha
+      }
+    })
+  }
+
+  // 节点数增加时重新分配共享内存
+  function initialize() {
+    let count = forceNodes.length
+    if(!shared || shared.strengths.length < count) {
+      shared = {
+        positions: new Float64Array(new SharedArrayBuffer(count * 16)),
+        strengths: new Float64Array(new SharedArrayBuffer(count * 8)),
+        field: new Float64Array(new SharedArrayBuffer(count * 16)),
+        control: new Int32Array(new SharedArrayBuffer((ports.length + 1) * 4))
+      }
+    }
+    forceNodes.forEach((d, j) => {
+      shared.strengths[j] = strength(d, j, forceNodes)
+    })
+  }
+
+  force.initialize = _ => {
+    forceNodes = _
+    initialize()
+  }
+
+  force.strength = _ => {
+    strength = typeof _ === 'function' ? _ : () => _
+    initialize()
+    return force
+  }
+
+  force.distanceMin = _ => {
+    distanceMin2 = _ * _
+    return force
+  }
+
+  force.distanceMax = _ => {
+    distanceMax2 = _ * _
+    return force
+  }
+
+  force.theta = _ => {
+    theta2 = _ * _
+    return force
+  }
+
+  return force
+}
+
+function jiggle() {
+  return (Math.random() - 0.5) * 1e-6
+}
+
+// 按 Barnes-Hut 近似计算 start 到 end 的节点受到的斥力，未乘 alpha，与 d3.forceManyBody 的计算一致
+function computeField(task) {
+  let {positions, strengths, field} = task
+  let indices = new Uint32Array(task.count)
+  for(let j = 0; j < task.count; j++) {
+    indices[j] = j
+  }
+  let tree = d3.quadtree(indices, j => positions[j * 2], j => positions[j * 2 + 1]).visitAfter(quad => {
+    let value = 0
+    if(quad.length) {
+      let weight = 0
+      let x = 0
+      let y = 0
+      for(let k = 0; k < 4; k++) {
+        let q = quad[k]
+        let c = q && Math.abs(q.value)
+        if(c) {
+          value += q.value
+          weight += c
+          x += c * q.x
+          y += c * q.y
+        }
+      }
+      quad.x = x / weight
+      quad.y = y / weight
+    }else {
+      quad.x = positions[quad.data * 2]
+      quad.y = positions[quad.data * 2 + 1]
+      for(let q = quad; q; q = q.next) {
+        value += strengths[q.data]
+      }
+    }
+    quad.value = value
+  })
+
+  for(let j = task.start; j < task.end; j++) {
+    let vx = 0
+    let vy = 0
+    tree.visit((quad, x1, y1, x2) => {
+      if(!quad.value) {
+        return true
+      }
+      let x = quad.x - positions[j * 2]
+      let y = quad.y - positions[j * 2 + 1]
+      let w = x2 - x1
+      let l = x * x + y * y
+      // 距离足够远的区域作为一个整体计算
+      if(w * w / task.theta2 < l) {
+        if(l < task.distanceMax2) {
+          if(x === 0) {
+            x = jiggle()
+            l += x * x
+          }
+          if(y === 0) {
+            y = jiggle()
+            l += y * y
+          }
+          if(l < task.distanceMin2) {
+            l = Math.sqrt(task.distanceMin2 * l)
+          }
+          vx += x * quad.value / l
+          vy += y * quad.value / l
+        }
+        return true
+      }
+      if(quad.length || l >= task.distanceMax2) {
+        return false
+      }
+      if(quad.data !== j || quad.next) {
+        if(x === 0) {
+          x = jiggle()
+          l += x * x
+        }
+        if(y === 0) {
+          y = jiggle()
+          l += y * y
+        }
+        if(l < task.distanceMin2) {
+          l = Math.sqrt(task.distanceMin2 * l)
+        }
+      }
+      for(let q = quad; q; q = q.next) {
+        if(q.data !== j) {
+          vx += x * strengths[q.data] / l
+          vy += y * strengths[q.data] / l
+        }
+      }
+      return false
+    })
+    field[j * 2] = vx
+    field[j * 2 + 1] = vy
+  }
+}
+
+// forces 中为 null 的力会被移除
+function applyForces(forces) {
+  forceOptions = forces
+  let charge = forces.charge
+  let link = forces.link
+  let center = forces.center
+  let collide = forces.collide
+  let x = forces.x
+  let y = forces.y
+  let radial = forces.radial
+  let cluster = forces.cluster
+
+  simulation
+    .force('charge', charge && forceManyBody().strength(accessor(charge.strength)).distanceMin(charge.distanceMin).distanceMax(charge.distanceMax).theta(charge.theta))
+    .force('link', link && d3.forceLink(getActiveLinks()).id(d => d.id).distance(accessor(link.distance)).strength(accessor(link.strength)).iterations(link.iterations))
+    .force('center', center && d3.forceCenter(center.x, center.y))
+    .force('collision', collide && d3.forceCollide().radius(accessor(collide.radius)).strength(collide.strength).iterations(collide.iterations))
+    .force('x', x && d3.forceX(x.x).strength(accessor(x.strength)))
+    .force('y', y && d3.forceY(y.y).strength(accessor(y.strength)))
+    .force('radial', radial && d3.forceRadial(accessor(radial.radius), radial.x, radial.y).strength(accessor(radial.strength)))
+    .force('cluster', cluster && forceCluster(cluster.groups).strength(accessor(cluster.strength)))
+}
+
+// force 与 multilevel 使用 d3 模拟，其他布局直接计算位置
+function isForceLayout() {
+  return layout.type === 'force' || layout.type === 'multilevel'
+}
+
+// 从当前 alpha 衰减到 alphaMin 所需的 tick 数，alphaTarget 不小于 alphaMin 时不会收敛
+// 其他布局不需要计算 tick，拖拽结束后立即停止
+function getTickCount() {
+  if(!isForceLayout()) {
+    return 0
+  }
+  let maxN = getAlphaTickCount()
+
+  if(options.maxTicks != null) {
+    return Math.min(options.maxTicks, maxN)
+  }
+  if(nodes.length > 5000) {
+    return Math.min(50, maxN)
+  }
+  return maxN
+}
+
+function getAlphaTickCount() {
+  return simulation.alphaTarget() >= simulation.alphaMin()
+    ? Infinity
+    : Math.max(Math.ceil(Math.log((simulation.alphaMin() - simulation.alphaTarget()) / (simulation.alpha() - simulation.alphaTarget())) / Math.log(1 - simulation.alphaDecay())), 0)
+}
+
+// 多层布局的最后一层不受大图 50 tick 的限制，只由 maxTicks 与 timeBudget 控制
+function getRefineTickCount() {
+  let maxN = getAlphaTickCount()
+  return options.maxTicks != null ? Math.min(options.maxTicks, maxN) : maxN
+}
+
+function applySimulationOptions(simulationOptions) {
+  options = simulationOptions || {}
+  simulation
+    .alphaMin(options.alphaMin != null ? options.alphaMin : 0.001)
+    .alphaDecay(options.alphaDecay != null ? options.alphaDecay : 1 - Math.pow(0.001, 1 / 300))
+    .alphaTarget(options.alphaTarget != null ? options.alphaTarget : 0)
+    .velocityDecay(options.velocityDecay != null ? options.velocityDecay : 0.4)
+}
+
+function getPositions() {
+  let bufferNode = new Float32Array(nodes.length * 2)
+  nodes.forEach((e, i) => {
+    bufferNode[i * 2] = e.x
+    bufferNode[i * 2 + 1] = e.y
+  })
+  return bufferNode.buffer
+}
+
+// 布局进度取 tick 数与耗时中较大的一个，过渡按耗时计算
+function getProgress() {
+  if(transition) {
+    return transition.duration > 0 ? Math.min((Date.now() - runStartTime) / transition.duration, 1) : 1
+  }
+  let progress = n > 0 ? i / n : 1
+  if(options.timeBudget) {
+    progress = Math.max(progress, (Date.now() - runStartTime) / options.timeBudget)
+  }
+  return Math.min(progress, 1)
+}
+
+function postState(state) {
+  postMessage({
+    type: 'state',
+    state,
+    alpha: simulation.alpha()
+  })
+}
+
+// 共享内存模式下位置写入主线程未在读取的槽位后再发布序号，消息只带版本号
+function postPositions(message) {
+  if(sharedPositions) {
+    let slot = 1 - (Atomics.load(sharedControl, SHARED_PUBLISHED) & 1)
+    let offset = slot * nodes.length * 2
+    while(Atomics.load(sharedControl, SHARED_READING) === slot) {
+      if(Atomics.wait(sharedControl, SHARED_READING, slot, HELPER_TIMEOUT) === 'timed-out') {
+        break
+      }
+    }
+    nodes.forEach((e, i) => {
+      sharedPositions[offset + i * 2] = e.x
+      sharedPositions[offset + i * 2 + 1] = e.y
+    })
+    sharedSequence++
+    Atomics.store(sharedControl, SHARED_PUBLISHED, sharedSequence * 2 + slot)
+    message.sharedVersion = sharedVersion
+    postMessage(message)
+  }else {
+    message.nodes = getPositions()
+    postMessage(message, [message.nodes])
+  }
+}
+
+function postEnd(state) {
+  postPositions({
+    type: 'end'
+  })
+  postState(state)
+}
+
+// 节点数变化时主线程重新分配共享缓冲区
+function setSharedPositions(data) {
+  sharedPositions = data.sharedPositions ? new Float32Array(data.sharedPositions, SHARED_HEADER * 4) : null
+  sharedControl = data.sharedPositions ? new Int32Array(data.sharedPositions, 0, SHARED_HEADER) : null
+  sharedVersion = data.sharedVersion
+  sharedSequence = 0
+}
+
+function loop() {
+  timer = null
+  let start = Date.now()
+  do {
+    i++
+    postPositions({
+      type: 'tick',
+      progress: getProgress(),
+      currentTick: i,
+      alpha: simulation.alpha()
+    })
+    if(transition) {
+      if(stepTransition() && !dragging) {
+        postEnd('ended')
+        return
+      }
+    }else {
+      step()
+      // 拖拽期间持续计算，直到松开后 alpha 衰减完毕；多层布局展开到原图后才结束
+      if(!dragging && !multilevel && (i >= n || (options.timeBudget && Date.now() - runStartTime >= options.timeBudget))) {
+        postEnd('ended')
+        return
+      }
+    }
+    // 拖拽与过渡时按帧率计算，避免消息堆积
+  } while(!dragging && !transition && Date.now() - start < TIME_SLICE)
+  timer = setTimeout(loop, (dragging || transition) ? TIME_SLICE : 0)
+}
+
+// 力导向布局计算一次 tick，其他布局只把固定的节点移到固定位置（拖拽）
+function step() {
+  if(multilevel) {
+    stepMultilevel()
+  }else if(isForceLayout()) {
+    simulation.tick()
+  }else {
+    nodes.forEach(pinToFixed)
+  }
+}
+
+function pinToFixed(d) {
+  if(d.fx != null) {
+    d.x = d.fx
+    d.y = d.fy
+  }
+}
+
+// 按耗时缓动到目标位置，返回过渡是否结束
+function stepTransition() {
+  let t = getProgress()
+  let k = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+  nodes.forEach((d, j) => {
+    d.x = transition.from[j * 2] + (transition.to[j * 2] - transition.from[j * 2]) * k
+    d.y = transition.from[j * 2 + 1] + (transition.to[j * 2 + 1] - transition.from[j * 2 + 1]) * k
+    d.vx = 0
+    d.vy = 0
+    pinToFixed(d)
+  })
+  if(t >= 1) {
+    transition = null
+    return true
+  }
+  return false
+}
+
+function schedule() {
+  if(!timer) {
+    timer = setTimeout(loop, 0)
+    postState('running')
+  }
+}
+
+// 以指定 alpha 重新开始计数并启动计算，其他布局重新计算目标位置并开始过渡
+function restart(alpha) {
+  simulation.alpha(alpha)
+  multilevel = null
+  transition = isForceLayout() ? null : {
+    from: new Float32Array(getPositions()),
+    to: getLayoutPositions(),
+    duration: layout.duration
+  }
+  i = 0
+  n = getTickCount()
+  paused = false
+  runStartTime = Date.now()
+  schedule()
+}
+
+function getNodeId(node) {
+  return typeof node === 'object' ? node.id : node
+}
+
+// 参与布局的节点与它们之间的边（按 active 中的下标，不含自环）
+function getActiveGraph() {
+  let active = getActiveNodes()
+  let localIndex = new Int32Array(nodes.length).fill(-1)
+  active.forEach((d, j) => {
+    localIndex[d.id] = j
+  })
+  let edges = []
+  getActiveLinks().forEach(e => {
+    let source = localIndex[getNodeId(e.source)]
+    let target = localIndex[getNodeId(e.target)]
+    if(source >= 0 && target >= 0 && source !== target) {
+      edges.push(source, target)
+    }
+  })
+  return {
+    active,
+    localIndex,
+    buffer: new Int32Array(edges)
+  }
+}
+
+// 按 layout 计算目标位置，只对参与布局的节点计算，隐藏与固定的节点保持当前位置
+function getLayoutPositions() {
+  let {active, localIndex, buffer} = getActiveGraph()
+  let roots = (layout.roots || []).map(e => localIndex[e]).filter(e => e >= 0)
+
+  let positions
+  if(layout.type === 'layered') {
+    positions = layoutLayered(active.length, buffer, layout)
+  }else if(layout.type === 'radialTree') {
+    positions = layoutRadialTree(active.length, buffer, roots, layout)
+  }else if(layout.type === 'grid') {
+    positions = layoutGrid(active.length, buffer, layout)
+  }else if(layout.type === 'concentric') {
+    positions = layoutConcentric(active.length, buffer, layout)
+  }else {
+    positions = layoutCircular(active.length, buffer, layout)
+  }
+
+  let result = new Float32Array(getPositions())
+  active.forEach((d, j) => {
+    if(d.fx == null) {
+      result[d.id * 2] = positions[j * 2]
+      result[d.id * 2 + 1] = positions[j * 2 + 1]
+    }
+  })
+  return result
+}
+
+// 按度从大到小排列的节点
+function getDegreeOrder(neighbors) {
+  return neighbors.map((e, j) => j).sort((a, b) => neighbors[b].length - neighbors[a].length || a - b)
+}
+
+// 广度优先遍历顺序，各连通分量从度最大的节点开始，使相邻的节点排在一起
+function getTraversalOrder(neighbors) {
+  let visited = new Uint8Array(neighbors.length)
+  let order = []
+  getDegreeOrder(neighbors).forEach(start => {
+    if(visited[start]) {
+      return
+    }
+    visited[start] = 1
+    for(let head = order.push(start) - 1; head < order.length; head++) {
+      neighbors[order[head]].forEach(e => {
+        if(!visited[e]) {
+          visited[e] = 1
+          order.push(e)
+        }
       })
     }
-    let links = []
-    let buffer = new Int32Array(event.data.linksBuffer)
+  })
+  return order
+}
 
-    for(let i = 0; i < buffer.length / 2; i++) {
-      links.push({
-        source: buffer[2 * i],
-        target: buffer[2 * i + 1]
+// 环形：相邻节点间距为 nodeSpacing
+function layoutCircular(count, buffer, options) {
+  let positions = new Float64Array(count * 2)
+  let radius = count > 1 ? options.nodeSpacing / (2 * Math.sin(Math.PI / count)) : 0
+  getTraversalOrder(getNeighbors(count, buffer)).forEach((node, j) => {
+    let angle = 2 * Math.PI * j / count
+    positions[node * 2] = radius * Math.cos(angle)
+    positions[node * 2 + 1] = radius * Math.sin(angle)
+  })
+  return positions
+}
+
+// 网格：按遍历顺序逐行排列
+function layoutGrid(count, buffer, options) {
+  let positions = new Float64Array(count * 2)
+  let columns = Math.ceil(Math.sqrt(count))
+  let rows = Math.ceil(count / columns)
+  getTraversalOrder(getNeighbors(count, buffer)).forEach((node, j) => {
+    positions[node * 2] = (j % columns - (columns - 1) / 2) * options.nodeSpacing
+    positions[node * 2 + 1] = ((rows - 1) / 2 - Math.floor(j / columns)) * options.nodeSpacing
+  })
+  return positions
+}
+
+// 同心圆：度越大越靠近中心，每圈按周长容纳节点，间距为 nodeSpacing
+function layoutConcentric(count, buffer, options) {
+  let positions = new Float64Array(count * 2)
+  let order = getDegreeOrder(getNeighbors(count, buffer))
+  let rings = []
+  order.forEach(node => {
+    let ring = rings[rings.length - 1]
+    let capacity = Math.max(Math.floor(2 * Math.PI * (rings.length - 1) * options.levelSpacing / options.nodeSpacing), 1)
+    if(!ring || ring.length >= capacity) {
+      ring = []
+      rings.push(ring)
+    }
+    ring.push(node)
+  })
+  rings.forEach((ring, level) => {
+    ring.forEach((node, j) => {
+      let angle = 2 * Math.PI * j / ring.length
+      positions[node * 2] = level * options.levelSpacing * Math.cos(angle)
+      positions[node * 2 + 1] = level * options.levelSpacing * Math.sin(angle)
+    })
+  })
+  return positions
+}
+
+// 径向树：从根节点广度优先生成树，第 k 层位于半径 k * levelSpacing 的圆上，按子树的叶子数分配角度
+// 未指定根节点的连通分量以度最大的节点为根，有多个根时根节点位于第一圈
+function layoutRadialTree(count, buffer, roots, options) {
+  let positions = new Float64Array(count * 2)
+  let neighbors = getNeighbors(count, buffer)
+  let visited = new Uint8Array(count)
+  let depth = new Int32Array(count)
+  let children = neighbors.map(() => [])
+  let order = []
+  let treeRoots = []
+  roots.concat(getDegreeOrder(neighbors)).forEach(root => {
+    if(visited[root]) {
+      return
+    }
+    visited[root] = 1
+    treeRoots.push(root)
+    for(let head = order.push(root) - 1; head < order.length; head++) {
+      let node = order[head]
+      neighbors[node].forEach(e => {
+        if(!visited[e]) {
+          visited[e] = 1
+          depth[e] = depth[node] + 1
+          children[node].push(e)
+          order.push(e)
+        }
       })
     }
+  })
+
+  let leaves = new Float64Array(count)
+  for(let j = order.length - 1; j >= 0; j--) {
+    let node = order[j]
+    leaves[node] = children[node].length ? children[node].reduce((sum, e) => sum + leaves[e], 0) : 1
+  }
+
+  let offset = treeRoots.length > 1 ? 1 : 0
+  let total = treeRoots.reduce((sum, e) => sum + leaves[e], 0)
+  let start = new Float64Array(count)
+  let span = new Float64Array(count)
+  let angle = 0
+  treeRoots.forEach(root => {
+    start[root] = angle
+    span[root] = 2 * Math.PI * leaves[root] / total
+    angle += span[root]
+  })
+  order.forEach(node => {
+    let from = start[node]
+    children[node].forEach(e => {
+      start[e] = from
+      span[e] = span[node] * leaves[e] / leaves[node]
+      from += span[e]
+    })
+    let radius = (depth[node] + offset) * options.levelSpacing
+    let theta = start[node] + span[node] / 2
+    positions[node * 2] = radius * Math.cos(theta)
+    positions[node * 2 + 1] = radius * Math.sin(theta)
+  })
+  return positions
+}
+
+// 分层布局（Sugiyama）：反转环上的边、最长路径分层、长边插入虚拟节点、重心法减少交叉，最后按相邻层的重心调整横向位置
+function layoutLayered(count, buffer, options) {
+  let outs = []
+  for(let j = 0; j < count; j++) {
+    outs.push([])
+  }
+  let keys = new Set()
+  for(let j = 0; j < buffer.length / 2; j++) {
+    let key = buffer[2 * j] * count + buffer[2 * j + 1]
+    if(!keys.has(key)) {
+      keys.add(key)
+      outs[buffer[2 * j]].push(buffer[2 * j + 1])
+    }
+  }
 
-    simulation = d3.forceSimulation(nodes)
-      .force("charge", d3.forceManyBody().strength(event.data.STRENGTH))
-      .force("link", d3.forceLink(links).id(d => d.id).distance(event.data.DISTANCE).strength(1))
-      .force('center', d3.forceCenter(0, 0))
-      .force('collision', d3.forceCollide().radius(event.data.COL))
-      .stop()
+  // 深度优先找出指向栈中节点的边并反转，得到无环图
+  let state = new Uint8Array(count)
+  let edges = []
+  for(let root = 0; root < count; root++) {
+    if(state[root]) {
+      continue
+    }
+    let stack = [[root, 0]]
+    state[root] = 1
+    while(stack.length) {
+      let top = stack[stack.length - 1]
+      let node = top[0]
+      if(top[1] >= outs[node].length) {
+        state[node] = 2
+        stack.pop()
+        continue
+      }
+      let next = outs[node][top[1]++]
+      if(state[next] === 1) {
+        edges.push([next, node])
+      }else {
+        edges.push([node, next])
+        if(!state[next]) {
+          state[next] = 1
+          stack.push([next, 0])
+        }
+      }
+    }
+  }
+
+  // 最长路径分层，只有出边的节点下移到最靠近其后继的一层
+  let succ = outs.map(() => [])
+  let pred = outs.map(() => [])
+  edges.forEach(e => {
+    succ[e[0]].push(e[1])
+    pred[e[1]].push(e[0])
+  })
+  let inDegree = pred.map(e => e.length)
+  let topo = []
+  for(let j = 0; j < count; j++) {
+    if(!inDegree[j]) {
+      topo.push(j)
+    }
+  }
+  let layer = new Int32Array(count)
+  for(let head = 0; head < topo.length; head++) {
+    let node = topo[head]
+    succ[node].forEach(e => {
+      layer[e] = Math.max(layer[e], layer[node] + 1)
+      if(!--inDegree[e]) {
+        topo.push(e)
+      }
+    })
+  }
+  for(let j = topo.length - 1; j >= 0; j--) {
+    let node = topo[j]
+    if(!pred[node].length && succ[node].length) {
+      layer[node] = succ[node].reduce((min, e) => Math.min(min, layer[e]), Infinity) - 1
+    }
+  }
 
-    let maxN = Math.ceil(Math.log(simulation.alphaMin()) / Math.log(1 - simulation.alphaDecay()))
+  // 跨越多层的边拆分为经过虚拟节点的链，up / down 为相邻层的邻居
+  let layers = []
+  let up = []
+  let down = []
+  let addVertex = (level) => {
+    while(layers.length <= level) {
+      layers.push([])
+    }
+    up.push([])
+    down.push([])
+    return up.length - 1
+  }
+  for(let j = 0; j < count; j++) {
+    addVertex(layer[j])
+  }
+  topo.forEach(j => {
+    layers[layer[j]].push(j)
+  })
+  edges.forEach(e => {
+    let from = e[0]
+    for(let level = layer[e[0]] + 1; level < layer[e[1]]; level++) {
+      let dummy = addVertex(level)
+      layers[level].push(dummy)
+      down[from].push(dummy)
+      up[dummy].push(from)
+      from = dummy
+    }
+    down[from].push(e[1])
+    up[e[1]].push(from)
+  })
 
-    if(nodes.length > 5000) {
-      n = 50
+  // 上下交替按相邻层的重心排序
+  let position = new Float64Array(up.length)
+  let updatePosition = level => {
+    layers[level].forEach((v, j) => {
+      position[v] = j
+    })
+  }
+  layers.forEach((e, level) => updatePosition(level))
+  let barycenters = new Float64Array(up.length)
+  let sortLayer = (level, adjacent) => {
+    layers[level].forEach(v => {
+      let list = adjacent[v]
+      barycenters[v] = list.length ? list.reduce((sum, e) => sum + position[e], 0) / list.length : position[v]
+    })
+    layers[level].sort((a, b) => barycenters[a] - barycenters[b] || position[a] - position[b])
+    updatePosition(level)
+  }
+  for(let sweep = 0; sweep < 4; sweep++) {
+    for(let level = 1; level < layers.length; level++) {
+      sortLayer(level, up)
+    }
+    for(let level = layers.length - 2; level >= 0; level--) {
+      sortLayer(level, down)
+    }
+  }
+
+  // 横向坐标：按相邻层邻居的平均位置放置，保持 nodeSpacing 的最小间距与层内顺序
+  let x = new Float64Array(up.length)
+  layers.forEach(list => {
+    list.forEach((v, j) => {
+      x[v] = (j - (list.length - 1) / 2) * options.nodeSpacing
+    })
+  })
+  let alignLayer = (level, adjacent) => {
+    let list = layers[level]
+    let desired = list.map(v => adjacent[v].length ? adjacent[v].reduce((sum, e) => sum + x[e], 0) / adjacent[v].length : x[v])
+    let shift = 0
+    list.forEach((v, j) => {
+      x[v] = j ? Math.max(desired[j], x[list[j - 1]] + options.nodeSpacing) : desired[j]
+      shift += desired[j] - x[v]
+    })
+    list.forEach(v => {
+      x[v] += shift / list.length
+    })
+  }
+  for(let sweep = 0; sweep < 2; sweep++) {
+    for(let level = 1; level < layers.length; level++) {
+      alignLayer(level, up)
+    }
+    for(let level = layers.length - 2; level >= 0; level--) {
+      alignLayer(level, down)
+    }
+  }
+
+  let center = 0
+  for(let j = 0; j < count; j++) {
+    center += x[j] / count
+  }
+  let positions = new Float64Array(count * 2)
+  let vertical = options.direction === 'TB' || options.direction === 'BT'
+  let sign = (options.direction === 'TB' || options.direction === 'RL') ? -1 : 1
+  for(let j = 0; j < count; j++) {
+    let along = sign * (layer[j] - (layers.length - 1) / 2) * options.levelSpacing
+    let across = x[j] - center
+    positions[j * 2] = vertical ? across : along
+    positions[j * 2 + 1] = vertical ? along : -across
+  }
+  return positions
+}
+
+// 多层布局：逐层合并相邻节点直到图足够小，从最粗的一层开始布局，再逐层展开，以上一层的位置为起点继续布局
+// timeBudget 的一半分给合并出的各层，最后一层（原图）使用 d3 模拟与剩余的时间
+function startMultilevel() {
+  let {active, buffer} = getActiveGraph()
+  let levels = coarsen(active.length, buffer)
+  transition = null
+  if(levels.length < 2) {
+    restart(1)
+    return
+  }
+  multilevel = {
+    active,
+    levels,
+    level: 0,
+    nodes: null,
+    simulation: null,
+    ticks: 0,
+    deadline: 0
+  }
+  startLevel(levels.length - 1)
+  simulation.alpha(MULTILEVEL_ALPHA)
+  i = 0
+  n = MULTILEVEL_COARSEST_TICKS + (levels.length - 2) * MULTILEVEL_TICKS + getRefineTickCount()
+  paused = false
+  runStartTime = Date.now()
+  schedule()
+}
+
+// 开始计算第 k 层，节点从上一层（更粗的一层）所在节点的位置附近出发
+function startLevel(k) {
+  let level = multilevel.levels[k]
+  let coarsest = k === multilevel.levels.length - 1
+  let levelNodes = []
+  for(let j = 0; j < level.count; j++) {
+    let node = {
+      id: j
+    }
+    if(!coarsest) {
+      let parent = multilevel.nodes[level.parent[j]]
+      node.x = parent.x + (Math.random() - 0.5) * getMeanValue(forceOptions.link && forceOptions.link.distance, 30)
+      node.y = parent.y + (Math.random() - 0.5) * getMeanValue(forceOptions.link && forceOptions.link.distance, 30)
+    }
+    levelNodes.push(node)
+  }
+  multilevel.level = k
+  multilevel.nodes = levelNodes
+  multilevel.simulation = getLevelSimulation(levelNodes, level).alpha(coarsest ? 1 : MULTILEVEL_ALPHA)
+  multilevel.ticks = coarsest ? MULTILEVEL_COARSEST_TICKS : MULTILEVEL_TICKS
+  multilevel.deadline = options.timeBudget ? Date.now() + options.timeBudget / 2 / (multilevel.levels.length - 1) : Infinity
+}
+
+// 合并出的节点按包含的原始节点数加大斥力与连线长度
+function getLevelSimulation(levelNodes, level) {
+  let weights = level.weights
+  let distance = getMeanValue(forceOptions.link && forceOptions.link.distance, 30)
+  let strength = getMeanValue(forceOptions.charge && forceOptions.charge.strength, -30)
+  let levelSimulation = d3.forceSimulation(levelNodes).stop()
+    .force('charge', forceManyBody().strength(d => strength * weights[d.id]))
+    .force('link', d3.forceLink(getLinks(level.buffer)).id(d => d.id).distance(d => distance * (Math.sqrt(weights[d.source.id]) + Math.sqrt(weights[d.target.id])) / 2))
+  if(forceOptions.center) {
+    levelSimulation.force('center', d3.forceCenter(forceOptions.center.x, forceOptions.center.y))
+  }
+  return levelSimulation
+}
+
+// 计算当前层一次 tick，原始节点显示在所属节点的位置；当前层完成后展开到下一层，最后交给 d3 模拟
+function stepMultilevel() {
+  multilevel.simulation.tick()
+  multilevel.ticks--
+  if(multilevel.ticks <= 0 || Date.now() >= multilevel.deadline) {
+    if(multilevel.level > 1) {
+      startLevel(multilevel.level - 1)
+    }else {
+      let distance = getMeanValue(forceOptions.link && forceOptions.link.distance, 30)
+      let parent = multilevel.levels[0].parent
+      multilevel.active.forEach((d, j) => {
+        let p = multilevel.nodes[parent[j]]
+        d.x = p.x + (Math.random() - 0.5) * distance
+        d.y = p.y + (Math.random() - 0.5) * distance
+        d.vx = 0
+        d.vy = 0
+        pinToFixed(d)
+      })
+      multilevel = null
+      n = i + getRefineTickCount()
+      return
+    }
+  }
+  let ancestors = multilevel.levels[multilevel.level].ancestors
+  multilevel.active.forEach((d, j) => {
+    let p = multilevel.nodes[ancestors[j]]
+    d.x = p.x
+    d.y = p.y
+    pinToFixed(d)
+  })
+}
+
+// 力参数的平均值，按节点/连线展开的数组取平均
+function getMeanValue(value, defaultValue) {
+  if(typeof value === 'number') {
+    return value
+  }
+  return value && value.length ? value.reduce((sum, e) => sum + e, 0) / value.length : defaultValue
+}
+
+// 逐层合并，每层包含节点数、边、节点权重（包含的原始节点数）、ancestors（原始节点 → 本层节点）
+// 以及 parent（本层节点 → 下一层节点，最粗的一层没有）
+function coarsen(count, buffer) {
+  let level = {
+    count,
+    buffer,
+    edgeWeights: new Float64Array(buffer.length / 2).fill(1),
+    weights: new Float64Array(count).fill(1),
+    ancestors: new Int32Array(count).map((e, j) => j)
+  }
+  let levels = [level]
+  while(level.count > MULTILEVEL_MIN_NODES) {
+    let parent = matchNodes(level)
+    let coarseCount = parent.reduce((max, e) => Math.max(max, e + 1), 0)
+    if(coarseCount > level.count * MULTILEVEL_MIN_REDUCTION) {
+      break
+    }
+    level.parent = parent
+    let next = aggregateLevel(level, parent, coarseCount)
+    next.ancestors = level.ancestors.map(e => parent[e])
+    levels.push(next)
+    level = next
+  }
+  return levels
+}
+
+// 重边匹配：按权重从小到大访问节点，与未匹配的邻居中连接权重除以两者权重之积最大的一个合并
+// 没有匹配到的度为 1 的节点并入邻居，使星形结构也能合并，返回各节点在下一层的编号
+function matchNodes(level) {
+  let neighbors = []
+  for(let j = 0; j < level.count; j++) {
+    neighbors.push([])
+  }
+  for(let j = 0; j < level.buffer.length / 2; j++) {
+    let source = level.buffer[2 * j]
+    let target = level.buffer[2 * j + 1]
+    neighbors[source].push(target, level.edgeWeights[j])
+    neighbors[target].push(source, level.edgeWeights[j])
+  }
+
+  let parent = new Int32Array(level.count).fill(-1)
+  let coarseCount = 0
+  let order = neighbors.map((e, j) => j).sort((a, b) => level.weights[a] - level.weights[b] || a - b)
+  order.forEach(u => {
+    if(parent[u] >= 0) {
+      return
+    }
+    let best = -1
+    let bestScore = 0
+    for(let k = 0; k < neighbors[u].length; k += 2) {
+      let v = neighbors[u][k]
+      let score = neighbors[u][k + 1] / (level.weights[u] * level.weights[v])
+      if(parent[v] < 0 && score > bestScore) {
+        best = v
+        bestScore = score
+      }
+    }
+    if(best >= 0) {
+      parent[u] = parent[best] = coarseCount++
+    }
+  })
+  order.forEach(u => {
+    if(parent[u] < 0 && neighbors[u].length === 2 && parent[neighbors[u][0]] >= 0) {
+      parent[u] = parent[neighbors[u][0]]
+    }
+  })
+  order.forEach(u => {
+    if(parent[u] < 0) {
+      parent[u] = coarseCount++
+    }
+  })
+  return parent
+}
+
+// 合并后的一层：节点权重相加，同一对节点之间的边合并为一条并累加权重，合并到同一节点的边被去掉
+function aggregateLevel(level, parent, count) {
+  let weights = new Float64Array(count)
+  for(let j = 0; j < level.count; j++) {
+    weights[parent[j]] += level.weights[j]
+  }
+  let edgeIndex = new Map()
+  let edges = []
+  let edgeWeights = []
+  for(let j = 0; j < level.buffer.length / 2; j++) {
+    let source = parent[level.buffer[2 * j]]
+    let target = parent[level.buffer[2 * j + 1]]
+    if(source === target) {
+      continue
+    }
+    let key = source < target ? source * count + target : target * count + source
+    if(edgeIndex.has(key)) {
+      edgeWeights[edgeIndex.get(key)] += level.edgeWeights[j]
     }else {
-      n = maxN
+      edgeIndex.set(key, edgeWeights.length)
+      edges.push(source, target)
+      edgeWeights.push(level.edgeWeights[j])
+    }
+  }
+  return {
+    count,
+    buffer: new Int32Array(edges),
+    edgeWeights: new Float64Array(edgeWeights),
+    weights
+  }
+}
+
+// 无向邻接表，自环只记录一次
+function getNeighbors(n, buffer) {
+  let neighbors = []
+  for(let i = 0; i < n; i++) {
+    neighbors.push([])
+  }
+  for(let i = 0; i < buffer.length / 2; i++) {
+    let source = buffer[2 * i]
+    let target = buffer[2 * i + 1]
+    neighbors[source].push(target)
+    if(source !== target) {
+      neighbors[target].push(source)
+    }
+  }
+  return neighbors
+}
+
+// 按编号出现的数量从大到小重新编号，返回编号数
+function renumberBySize(labels) {
+  let sizes = {}
+  labels.forEach(e => {
+    sizes[e] = (sizes[e] || 0) + 1
+  })
+  let order = Object.keys(sizes).sort((a, b) => sizes[b] - sizes[a])
+  let map = {}
+  order.forEach((e, i) => {
+    map[e] = i
+  })
+  labels.forEach((e, i) => {
+    labels[i] = map[e]
+  })
+  return order.length
+}
+
+// 有向 PageRank，没有出链的节点将权重平均分给所有节点
+function getPageRank(n, buffer, damping) {
+  let outDegree = new Int32Array(n)
+  for(let i = 0; i < buffer.length / 2; i++) {
+    outDegree[buffer[2 * i]]++
+  }
+  let rank = new Float64Array(n).fill(1 / n)
+  for(let iteration = 0; iteration < 100; iteration++) {
+    let next = new Float64Array(n)
+    let dangling = 0
+    for(let i = 0; i < n; i++) {
+      if(!outDegree[i]) {
+        dangling += rank[i]
+      }
+    }
+    for(let i = 0; i < buffer.length / 2; i++) {
+      next[buffer[2 * i + 1]] += damping * rank[buffer[2 * i]] / outDegree[buffer[2 * i]]
     }
+    let base = (1 - damping + damping * dangling) / n
+    let delta = 0
+    for(let i = 0; i < n; i++) {
+      next[i] += base
+      delta += Math.abs(next[i] - rank[i])
+    }
+    rank = next
+    if(delta < 1e-6) {
+      break
+    }
+  }
+  return rank
+}
+
+// Brandes 算法计算无向图的介数中心性，samples 小于节点数时随机抽取源节点并按比例放大
+function getBetweenness(n, neighbors, samples) {
+  let result = new Float64Array(n)
+  let sources = []
+  for(let i = 0; i < n; i++) {
+    sources.push(i)
+  }
+  let k = Math.min(samples, n)
+  for(let i = 0; i < k; i++) {
+    let j = i + Math.floor(Math.random() * (n - i))
+    let source = sources[j]
+    sources[j] = sources[i]
+    sources[i] = source
+  }
 
-    for (i = 1; i <= n; ++i) {
-      let bufferNode = []
-      nodes.forEach(e => {
-        bufferNode.push(e.x, e.y)
+  let distance = new Int32Array(n)
+  let sigma = new Float64Array(n)
+  let delta = new Float64Array(n)
+  let queue = new Int32Array(n)
+  for(let s = 0; s < k; s++) {
+    let source = sources[s]
+    distance.fill(-1)
+    sigma.fill(0)
+    delta.fill(0)
+    distance[source] = 0
+    sigma[source] = 1
+    queue[0] = source
+    let length = 1
+    for(let i = 0; i < length; i++) {
+      let v = queue[i]
+      neighbors[v].forEach(w => {
+        if(distance[w] < 0) {
+          distance[w] = distance[v] + 1
+          queue[length++] = w
+        }
+        if(distance[w] === distance[v] + 1) {
+          sigma[w] += sigma[v]
+        }
       })
-      let message = {
-        type: 'tick',
-        progress: i / n,
-        currentTick: i,
-        nodes: new Float32Array(bufferNode).buffer
+    }
+    // 按 BFS 逆序累加依赖值
+    for(let i = length - 1; i > 0; i--) {
+      let w = queue[i]
+      neighbors[w].forEach(v => {
+        if(distance[v] === distance[w] - 1) {
+          delta[v] += sigma[v] / sigma[w] * (1 + delta[w])
+        }
+      })
+      result[w] += delta[w]
+    }
+  }
+  // 无向图中每条路径被两端各计算一次
+  let scale = n / k / 2
+  for(let i = 0; i < n; i++) {
+    result[i] *= scale
+  }
+  return result
+}
+
+function getComponents(n, neighbors) {
+  let component = new Int32Array(n).fill(-1)
+  let count = 0
+  for(let i = 0; i < n; i++) {
+    if(component[i] >= 0) {
+      continue
+    }
+    let queue = [i]
+    component[i] = count
+    for(let j = 0; j < queue.length; j++) {
+      neighbors[queue[j]].forEach(w => {
+        if(component[w] < 0) {
+          component[w] = count
+          queue.push(w)
+        }
+      })
+    }
+    count++
+  }
+  return component
+}
+
+// 加权无向图：targets/weights 为邻接表（不含自环），loops 为自环权重
+function getWeightedGraph(n, buffer) {
+  let graph = {
+    targets: [],
+    weights: [],
+    loops: new Float64Array(n)
+  }
+  let maps = []
+  for(let i = 0; i < n; i++) {
+    maps.push(new Map())
+  }
+  for(let i = 0; i < buffer.length / 2; i++) {
+    let source = buffer[2 * i]
+    let target = buffer[2 * i + 1]
+    if(source === target) {
+      graph.loops[source] += 1
+    }else {
+      maps[source].set(target, (maps[source].get(target) || 0) + 1)
+      maps[target].set(source, (maps[target].get(source) || 0) + 1)
+    }
+  }
+  maps.forEach(map => {
+    graph.targets.push(Array.from(map.keys()))
+    graph.weights.push(Array.from(map.values()))
+  })
+  return graph
+}
+
+// 节点的加权度，自环计两次
+function getStrengths(graph) {
+  return graph.loops.map((loop, i) => graph.weights[i].reduce((sum, w) => sum + w, 2 * loop))
+}
+
+// Louvain 第一阶段：逐个把节点移到模块度增益最大的相邻社区，直到没有节点移动
+function moveNodes(graph, resolution) {
+  let n = graph.loops.length
+  let strengths = getStrengths(graph)
+  let m2 = strengths.reduce((sum, e) => sum + e, 0)
+  let community = new Int32Array(n)
+  let total = new Float64Array(n)
+  for(let i = 0; i < n; i++) {
+    community[i] = i
+    total[i] = strengths[i]
+  }
+  if(!m2) {
+    return {
+      community,
+      moved: false
+    }
+  }
+  let moved = false
+  let improved = true
+  let links = new Map()
+  while(improved) {
+    improved = false
+    for(let i = 0; i < n; i++) {
+      let current = community[i]
+      links.clear()
+      graph.targets[i].forEach((j, index) => {
+        links.set(community[j], (links.get(community[j]) || 0) + graph.weights[i][index])
+      })
+      total[current] -= strengths[i]
+      let best = current
+      let bestGain = (links.get(current) || 0) - resolution * total[current] * strengths[i] / m2
+      links.forEach((weight, c) => {
+        let gain = weight - resolution * total[c] * strengths[i] / m2
+        if(gain > bestGain + 1e-12) {
+          best = c
+          bestGain = gain
+        }
+      })
+      total[best] += strengths[i]
+      if(best !== current) {
+        community[i] = best
+        improved = true
+        moved = true
+      }
+    }
+  }
+  return {
+    community,
+    moved
+  }
+}
+
+// Louvain 第二阶段：每个社区合并为一个节点
+function aggregate(graph, community, count) {
+  let result = {
+    targets: [],
+    weights: [],
+    loops: new Float64Array(count)
+  }
+  let maps = []
+  for(let i = 0; i < count; i++) {
+    maps.push(new Map())
+  }
+  graph.loops.forEach((loop, i) => {
+    let c = community[i]
+    result.loops[c] += loop
+    graph.targets[i].forEach((j, index) => {
+      let weight = graph.weights[i][index]
+      if(community[j] === c) {
+        // 社区内的连线在两端各出现一次
+        result.loops[c] += weight / 2
+      }else {
+        maps[c].set(community[j], (maps[c].get(community[j]) || 0) + weight)
       }
-      postMessage(message, [message.nodes])
-      simulation.tick()
-      if(i === n) {
-        let message = {
-          type: 'end',
-          nodes: new Float32Array(bufferNode).buffer
+    })
+  })
+  maps.forEach(map => {
+    result.targets.push(Array.from(map.keys()))
+    result.weights.push(Array.from(map.values()))
+  })
+  return result
+}
+
+function getModularity(graph, community, resolution) {
+  let strengths = getStrengths(graph)
+  let m2 = strengths.reduce((sum, e) => sum + e, 0)
+  if(!m2) {
+    return 0
+  }
+  let inside = {}
+  let total = {}
+  graph.loops.forEach((loop, i) => {
+    let c = community[i]
+    total[c] = (total[c] || 0) + strengths[i]
+    inside[c] = (inside[c] || 0) + 2 * loop
+    graph.targets[i].forEach((j, index) => {
+      if(community[j] === c) {
+        inside[c] += graph.weights[i][index]
+      }
+    })
+  })
+  return Object.keys(total).reduce((sum, c) => sum + inside[c] / m2 - resolution * Math.pow(total[c] / m2, 2), 0)
+}
+
+function getCommunities(n, buffer, resolution) {
+  let origin = getWeightedGraph(n, buffer)
+  let graph = origin
+  let membership = new Int32Array(n)
+  for(let i = 0; i < n; i++) {
+    membership[i] = i
+  }
+  for(;;) {
+    let result = moveNodes(graph, resolution)
+    if(!result.moved) {
+      break
+    }
+    let count = renumberBySize(result.community)
+    for(let i = 0; i < n; i++) {
+      membership[i] = result.community[membership[i]]
+    }
+    graph = aggregate(graph, result.community, count)
+  }
+  return {
+    community: membership,
+    count: renumberBySize(membership),
+    modularity: getModularity(origin, membership, resolution)
+  }
+}
+
+function analyze(data) {
+  let n = data.nodes
+  let buffer = new Int32Array(data.linksBuffer)
+  let options = data.options || {}
+  let inDegree = new Int32Array(n)
+  let outDegree = new Int32Array(n)
+  for(let i = 0; i < buffer.length / 2; i++) {
+    outDegree[buffer[2 * i]]++
+    inDegree[buffer[2 * i + 1]]++
+  }
+  let neighbors = getNeighbors(n, buffer)
+  let component = getComponents(n, neighbors)
+  let componentCount = renumberBySize(component)
+  let communities = getCommunities(n, buffer, options.resolution != null ? options.resolution : 1)
+
+  let message = {
+    type: 'analytics',
+    requestId: data.requestId,
+    inDegree: inDegree.buffer,
+    outDegree: outDegree.buffer,
+    pagerank: getPageRank(n, buffer, options.damping != null ? options.damping : 0.85).buffer,
+    betweenness: getBetweenness(n, neighbors, options.samples != null ? options.samples : 200).buffer,
+    component: component.buffer,
+    componentCount,
+    community: communities.community.buffer,
+    communityCount: communities.count,
+    modularity: communities.modularity
+  }
+  postMessage(message, [message.inDegree, message.outDegree, message.pagerank, message.betweenness, message.component, message.community])
+}
+
+onmessage = function(event) {
+  if(event.data.type === 'start') {
+    // positions 中为 NaN 的节点由 d3 初始化位置，fixed 为 1 的节点固定在初始位置
+    let positions = new Float32Array(event.data.positions)
+    let fixed = new Uint8Array(event.data.fixed)
+    let positioned = true
+    nodes = []
+    for(let i = 0; i < event.data.nodes; i++) {
+      let node = {
+        id: i
+      }
+      if(!isNaN(positions[2 * i]) && !isNaN(positions[2 * i + 1])) {
+        node.x = positions[2 * i]
+        node.y = positions[2 * i + 1]
+        if(fixed[i]) {
+          node.fx = node.x
+          node.fy = node.y
         }
-        postMessage(message, [message.nodes])
+      }else {
+        positioned = false
       }
+      nodes.push(node)
+    }
+    links = getLinks(event.data.linksBuffer)
+    hiddenNodes = null
+    hiddenLinks = null
+    setSharedPositions(event.data)
+
+    simulation = d3.forceSimulation(nodes).stop()
+    applySimulationOptions(event.data.simulation)
+    applyForces(event.data.forces)
+    layout = event.data.layout
+
+    // 所有节点都有初始位置时可跳过力导向布局
+    if(positioned && options.skipWhenPositioned && isForceLayout()) {
+      postEnd('ended')
+      return
     }
+    if(layout.type === 'multilevel') {
+      startMultilevel()
+    }else {
+      restart(1)
+    }
+  }else if(event.data.type === 'update') {
+    // 增量更新：indexMap[新下标] = 旧下标，-1 表示新增节点，新增节点使用 positions 与 fixed 中的初始状态
+    let indexMap = new Int32Array(event.data.indexMap)
+    let positions = new Float32Array(event.data.positions)
+    let fixed = new Uint8Array(event.data.fixed)
+    let prevNodes = nodes
+
+    nodes = []
+    for(let i = 0; i < indexMap.length; i++) {
+      let node = indexMap[i] >= 0 ? prevNodes[indexMap[i]] : {
+        x: positions[2 * i],
+        y: positions[2 * i + 1]
+      }
+      if(indexMap[i] < 0 && fixed[i] && !isNaN(node.x)) {
+        node.fx = node.x
+        node.fy = node.y
+      }
+      node.id = i
+      nodes.push(node)
+    }
+    links = getLinks(event.data.linksBuffer)
+    // 下标已变化，主线程随后重新发送 filter
+    hiddenNodes = null
+    hiddenLinks = null
+    setSharedPositions(event.data)
+
+    simulation.nodes(nodes)
+    applyForces(event.data.forces)
+    // 根节点按新的下标传入
+    layout = event.data.layout
+    restart(event.data.alpha)
+  }else if(event.data.type === 'layout') {
+    layout = event.data.layout
+    if(layout.type === 'multilevel') {
+      startMultilevel()
+    }else {
+      restart(event.data.alpha)
+    }
+  }else if(event.data.type === 'filter') {
+    // 隐藏的节点移出模拟，保持原位置
+    hiddenNodes = new Float32Array(event.data.hiddenNodes)
+    hiddenLinks = new Float32Array(event.data.hiddenLinks)
+    if(hiddenNodes.every(e => !e) && hiddenLinks.every(e => !e)) {
+      hiddenNodes = null
+      hiddenLinks = null
+    }
+    simulation.nodes(getActiveNodes())
+    applyForces(forceOptions)
+    if(event.data.alpha != null) {
+      restart(event.data.alpha)
+    }
+  }else if(event.data.type === 'forces') {
+    applyForces(event.data.forces)
+    restart(event.data.alpha)
+  }else if(event.data.type === 'dragstart') {
+    dragging = true
+    event.data.indices.forEach(index => {
+      let node = nodes[index]
+      node.pinned = node.fx != null
+      node.fx = node.x
+      node.fy = node.y
+    })
+    simulation.alphaTarget(0.3)
+    if(!timer) {
+      i = 0
+      n = 0
+      paused = false
+      runStartTime = Date.now()
+      schedule()
+    }
+  }else if(event.data.type === 'drag') {
+    event.data.indices.forEach((index, j) => {
+      nodes[index].fx = event.data.positions[j * 2]
+      nodes[index].fy = event.data.positions[j * 2 + 1]
+    })
+  }else if(event.data.type === 'dragend') {
+    dragging = false
+    // 拖拽前已固定的节点保持固定
+    event.data.indices.forEach(index => {
+      let node = nodes[index]
+      if(!event.data.pin && !node.pinned) {
+        node.fx = null
+        node.fy = null
+      }
+      delete node.pinned
+    })
+    simulation.alphaTarget(options.alphaTarget != null ? options.alphaTarget : 0)
+    n = Math.max(n, i + getTickCount())
+    runStartTime = Date.now()
+  }else if(event.data.type === 'pin') {
+    let moved = false
+    event.data.indices.forEach((index, j) => {
+      let node = nodes[index]
+      if(event.data.positions) {
+        node.x = node.fx = event.data.positions[j * 2]
+        node.y = node.fy = event.data.positions[j * 2 + 1]
+        moved = true
+      }else {
+        node.fx = node.x
+        node.fy = node.y
+      }
+    })
+    if(moved && !timer) {
+      restart(0.1)
+    }
+  }else if(event.data.type === 'unpin') {
+    event.data.indices.forEach(index => {
+      nodes[index].fx = null
+      nodes[index].fy = null
+    })
+  }else if(event.data.type === 'simulation') {
+    applySimulationOptions(event.data.simulation)
+    if(timer || paused) {
+      n = i + getTickCount()
+    }
+  }else if(event.data.type === 'reheat') {
+    restart(event.data.alpha)
+  }else if(event.data.type === 'pause') {
+    if(timer && !dragging) {
+      clearTimeout(timer)
+      timer = null
+      paused = true
+      pauseTime = Date.now()
+      postState('paused')
+    }
+  }else if(event.data.type === 'resume') {
+    if(paused) {
+      paused = false
+      runStartTime += Date.now() - pauseTime
+      schedule()
+    }
+  }else if(event.data.type === 'helpers') {
+    helperPorts = event.data.ports
+  }else if(event.data.type === 'helper') {
+    // 辅助 worker：计算主 worker 分配的一段节点的斥力，完成后通过 Atomics 通知
+    // 主 worker 已进入下一轮（超时后自行补算）时丢弃过期的任务
+    event.data.port.onmessage = e => {
+      if(Atomics.load(e.data.control, e.data.generationIndex) !== e.data.generation) {
+        return
+      }
+      computeField(e.data)
+      Atomics.store(e.data.control, e.data.slice, e.data.generation)
+      Atomics.notify(e.data.control, e.data.slice)
+    }
+  }else if(event.data.type === 'analyze') {
+    analyze(event.data)
   }else if(event.data.type === 'stop') {
-    simulation.stop()
+    // 停止后保留当前布局
+    if(timer || paused) {
+      clearTimeout(timer)
+      timer = null
+      paused = false
+      transition = null
+      multilevel = null
+      postEnd('stopped')
+    }
   }
-}
\ No newline at end of file
+}
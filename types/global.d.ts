@@ -1,9 +1,20 @@
 interface Window {
   THREE: any
+  crossOriginIsolated?: boolean
 }
 
 declare var window: Window
 
+// es6 的默认 lib 不含 es2017.sharedmemory
+declare var SharedArrayBuffer: {
+  new(byteLength: number): ArrayBuffer
+}
+declare var Atomics: {
+  load(typedArray: Int32Array, index: number): number
+  store(typedArray: Int32Array, index: number, value: number): number
+  notify(typedArray: Int32Array, index: number, count?: number): number
+}
+
 // https://github.com/webpack-contrib/raw-loader/issues/54
 declare module '*.vs' {
   const content: Function
@@ -0,0 +1,8 @@
+import {Vector2} from 'three'
+
+// @types/three 中 triangulateShape 的签名与 three r97 不符
+declare module 'three' {
+  namespace ShapeUtils {
+    function triangulateShape(contour: Array<Vector2>, holes: Array<Array<Vector2>>): Array<Array<number>>
+  }
+}